@@ -0,0 +1,10 @@
+import { vi } from 'vitest';
+
+/**
+ * Session with mocked loggers, used by `vi.mock('myst-cli')` in the CLI tests
+ *
+ * The rest of myst-cli, including its build pipeline, is not loaded.
+ */
+export class Session {
+  log = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
@@ -0,0 +1,193 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { Session } from 'myst-cli';
+import type { Deposition, DepositionMetadata } from '../index.js';
+import type { DepositPlan } from './deposit.js';
+import {
+  keepExistingAccess,
+  keepReservedDoi,
+  logDepositPlan,
+  otherZenodoDoi,
+  saveReservedDoi,
+  updatePublishedDoi,
+} from './deposit.js';
+
+vi.mock('myst-cli');
+
+function metadata(doi?: string): DepositionMetadata {
+  return { title: 'Title', description: '', upload_type: 'poster', creators: [], doi };
+}
+
+function draft(metadataOverrides: Partial<DepositionMetadata> = {}): Deposition {
+  return {
+    id: 12,
+    conceptdoi: '10.5281/zenodo.10',
+    metadata: { ...metadata(), ...metadataOverrides },
+  } as Deposition;
+}
+
+describe('otherZenodoDoi', () => {
+  it('returns the DOI of the previous version', () => {
+    expect(otherZenodoDoi('10.5281/zenodo.11', draft())).toBe('10.5281/zenodo.11');
+  });
+  it('returns the concept DOI', () => {
+    expect(otherZenodoDoi('10.5281/zenodo.10', draft())).toBe('10.5281/zenodo.10');
+  });
+  it('ignores the DOI of the draft', () => {
+    expect(otherZenodoDoi('10.5281/zenodo.12', draft())).toBeUndefined();
+    expect(
+      otherZenodoDoi('10.5072/zenodo.13', draft({ prereserve_doi: { doi: '10.5072/zenodo.13' } })),
+    ).toBeUndefined();
+  });
+  it('ignores DOIs that are not from Zenodo', () => {
+    expect(otherZenodoDoi('10.1000/abc', draft())).toBeUndefined();
+    expect(otherZenodoDoi(undefined, draft())).toBeUndefined();
+  });
+});
+
+describe('keepExistingAccess', () => {
+  const embargoed = draft({ access_right: 'embargoed', embargo_date: '2030-01-01' });
+  it('keeps the access of the deposit if it is not set', () => {
+    const data = metadata();
+    keepExistingAccess(data, embargoed);
+    expect(data).toMatchObject({ access_right: 'embargoed', embargo_date: '2030-01-01' });
+  });
+  it('changes the access if it is set', () => {
+    const data = { ...metadata(), access_right: 'open' as const };
+    keepExistingAccess(data, embargoed);
+    expect(data.access_right).toBe('open');
+    expect(data.embargo_date).toBeUndefined();
+  });
+});
+
+describe('keepReservedDoi', () => {
+  const reserved = draft({ prereserve_doi: { doi: '10.5281/zenodo.12', recid: 12 } });
+  it('reserves the DOI again rather than setting it', () => {
+    const data = metadata('10.5281/zenodo.12');
+    keepReservedDoi(data, reserved);
+    expect(data.doi).toBeUndefined();
+    expect(data.prereserve_doi).toBe(true);
+  });
+  it('keeps other DOIs', () => {
+    const data = metadata('10.1000/abc');
+    keepReservedDoi(data, reserved);
+    expect(data.doi).toBe('10.1000/abc');
+    expect(data.prereserve_doi).toBeUndefined();
+  });
+  it('does nothing without a reserved DOI', () => {
+    const data = metadata('10.5281/zenodo.12');
+    keepReservedDoi(data, draft());
+    expect(data).toEqual(metadata('10.5281/zenodo.12'));
+  });
+});
+
+describe('updatePublishedDoi', () => {
+  let root: string;
+  let configFile: string;
+  let session: Session;
+  const published = { id: 12, doi: '10.5281/zenodo.12', metadata: {} } as Deposition;
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-deposit-'));
+    configFile = path.join(root, 'myst.yml');
+    session = new Session();
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+  function writeDoi(doi?: string) {
+    fs.writeFileSync(configFile, `project:\n${doi ? `  doi: ${doi}\n` : ''}  title: Poster\n`);
+  }
+  function readConfig() {
+    return fs.readFileSync(configFile).toString();
+  }
+  it('adds the DOI if the config has none', () => {
+    writeDoi();
+    updatePublishedDoi(session, configFile, undefined, published);
+    expect(readConfig()).toBe('project:\n  doi: 10.5281/zenodo.12\n  title: Poster\n');
+  });
+  it('replaces the DOI of another Zenodo record', () => {
+    writeDoi('10.5281/zenodo.11');
+    updatePublishedDoi(session, configFile, '10.5281/zenodo.11', published);
+    expect(readConfig()).toBe('project:\n  doi: 10.5281/zenodo.12\n  title: Poster\n');
+  });
+  it('replaces the DOI of the previous version', () => {
+    writeDoi('10.1000/abc');
+    updatePublishedDoi(session, configFile, '10.1000/abc', published, '10.1000/abc');
+    expect(readConfig()).toBe('project:\n  doi: 10.5281/zenodo.12\n  title: Poster\n');
+  });
+  it('keeps any other DOI with a warning', () => {
+    writeDoi('10.1000/abc');
+    updatePublishedDoi(session, configFile, '10.1000/abc', published);
+    expect(readConfig()).toBe('project:\n  doi: 10.1000/abc\n  title: Poster\n');
+    expect(session.log.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Kept DOI 10.1000/abc in the config'),
+    );
+  });
+});
+
+describe('saveReservedDoi', () => {
+  let root: string;
+  let configFile: string;
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-deposit-'));
+    configFile = path.join(root, 'myst.yml');
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+  it('writes the reserved DOI to the config', () => {
+    fs.writeFileSync(configFile, 'project:\n  title: Poster\n');
+    const reserved = draft({ prereserve_doi: { doi: '10.5281/zenodo.12', recid: 12 } });
+    expect(saveReservedDoi(configFile, undefined, reserved)).toBe('10.5281/zenodo.12');
+    expect(fs.readFileSync(configFile).toString()).toBe(
+      'project:\n  doi: 10.5281/zenodo.12\n  title: Poster\n',
+    );
+  });
+  it('throws if no DOI was reserved', () => {
+    expect(() => saveReservedDoi(configFile, undefined, draft())).toThrow(
+      'No DOI was reserved for deposit 12',
+    );
+  });
+});
+
+describe('logDepositPlan', () => {
+  const plan: DepositPlan = {
+    title: 'Poster',
+    depositId: 12,
+    metadata: metadata('10.5281/zenodo.12'),
+    validation: { valid: true, errors: [], warnings: [] },
+    files: [
+      { path: 'poster.pdf', name: 'poster.pdf', size: 2048 },
+      { path: 'data.csv', name: 'data.csv' },
+    ],
+  };
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  it('logs the deposit, metadata and files of each article', () => {
+    const session = new Session();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    logDepositPlan(session, [plan]);
+    const messages = (session.log.info as ReturnType<typeof vi.fn>).mock.calls.map(
+      ([message]) => message,
+    );
+    expect(messages).toContain('\n📄 "Poster"');
+    expect(messages).toContain('   Config: none');
+    expect(messages).toContain('   Deposit: existing 12');
+    expect(messages).toContain('     doi          10.5281/zenodo.12');
+    expect(messages).toContain('   Files (2):');
+    expect(messages).toContain('     poster.pdf  2.0 KB');
+    expect(messages).toContain('     data.csv  🚨 missing');
+    expect(log).not.toHaveBeenCalled();
+  });
+  it('prints only the plans as JSON with the json option', () => {
+    const session = new Session();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    logDepositPlan(session, [plan], { json: true });
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual([plan]);
+    expect(session.log.info).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,31 @@
 import path from 'node:path';
 import fs from 'node:fs';
-import { load as yamlLoad } from 'js-yaml';
 import { Command, Option } from 'commander';
 import inquirer from 'inquirer';
-import type { UploadType, Contributor as ZenodoContributor, DepositionMetadata } from '../index.js';
-import { ZenodoClient } from '../index.js';
+import type {
+  AccessRight,
+  Citation,
+  Deposition,
+  DepositionMetadata,
+  ImageType,
+  IssueData,
+  PublicationType,
+  ReferenceFormat,
+  UploadType,
+  ValidationResult,
+} from '../index.js';
+import {
+  ACCESS_RIGHTS,
+  createLimit,
+  frontmatterToDepositionMetadata,
+  IMAGE_TYPES,
+  issueDataFromArticles,
+  PUBLICATION_TYPES,
+  REFERENCE_FORMATS,
+  UPLOAD_TYPES,
+  validateDepositionMetadata,
+  ZenodoClient,
+} from '../index.js';
 import type { ISession } from 'myst-cli';
 import {
   castSession,
@@ -18,21 +39,67 @@ import {
   selectors,
   Session,
 } from 'myst-cli';
-import type { GenericParent } from 'myst-common';
+import type { Citations, GenericParent } from 'myst-common';
 import { extractPart, plural } from 'myst-common';
 import { mystToHtml } from 'myst-to-html';
-import type { Affiliation, Contributor, ProjectFrontmatter } from 'myst-frontmatter';
+import type { ProjectFrontmatter } from 'myst-frontmatter';
 import { clirun } from 'myst-cli-utils';
-import { addDoiToConfig, addZenodoToConfig } from './utils.js';
-
-const DEPOSIT_FILE_EXTENSIONS = ['.pdf', '.pptx', '.png'];
+import type { FileSelection } from './files.js';
+import {
+  depositFileName,
+  formatBytes,
+  isFolder,
+  logFileSyncPlan,
+  planFileSync,
+  resolveFilesToUpload,
+} from './files.js';
+import { DepositJournal, JOURNAL_FILE } from './journal.js';
+import { UploadProgressBars } from './progress.js';
+import {
+  folderManifest,
+  folderManifestHtml,
+  loadLocalFilesAndFolders,
+  withZippedFolders,
+} from './zip.js';
+import {
+  addDoiToConfig,
+  addZenodoToConfig,
+  collect,
+  getZenodoConfig,
+  getZenodoId,
+  logValidation,
+  logZenodoError,
+  logZenodoErrors,
+  parsePositiveInteger,
+  stderrLogger,
+  updateDoiInConfig,
+  updateZenodoInConfig,
+} from './utils.js';
 
 type DepositOptions = {
   type?: UploadType;
+  publicationType?: PublicationType;
+  imageType?: ImageType;
   file?: string;
   sandbox?: boolean;
   community?: string;
+  references?: ReferenceFormat;
+  access?: AccessRight;
+  embargoDate?: string;
+  accessConditions?: string;
+  include?: string[];
+  exclude?: string[];
+  zip?: string[];
+  manifest?: boolean;
+  concurrency?: number;
+  resume?: boolean;
+  reserveDoi?: boolean;
   publish?: boolean;
+  newVersion?: boolean;
+  keepFiles?: boolean;
+  prune?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
 };
 
 type DepositSource = {
@@ -40,6 +107,15 @@ type DepositSource = {
   depositFile: string;
 };
 
+function citationsFromReferences(cite: Citations | undefined): Citation[] {
+  return (
+    cite?.order.map((key) => {
+      const { doi, html } = cite.data[key];
+      return { doi, html };
+    }) ?? []
+  );
+}
+
 export async function depositArticleFromSource(session: ISession, depositSource: DepositSource) {
   const { projectPath, depositFile } = depositSource;
   const state = session.store.getState();
@@ -50,7 +126,7 @@ export async function depositArticleFromSource(session: ISession, depositSource:
   );
   let abstractPart: GenericParent | undefined;
   let frontmatter: ProjectFrontmatter | undefined;
-  const dois: Record<string, string> = {};
+  const citations: Citation[] = [];
   if (depositFile === configFile) {
     let fileContents: Awaited<ReturnType<typeof getFileContent>>;
     try {
@@ -77,11 +153,7 @@ export async function depositArticleFromSource(session: ISession, depositSource:
       });
     }
     fileContents.forEach(({ references }) => {
-      references.cite?.order.forEach((key) => {
-        const value = references.cite?.data[key].doi;
-        if (value) dois[key] = value;
-        else session.log.warn(`Citation without DOI excluded from zenodo deposit: ${key}`);
-      });
+      citations.push(...citationsFromReferences(references.cite));
     });
     frontmatter = projectFrontmatter;
   } else {
@@ -97,11 +169,7 @@ export async function depositArticleFromSource(session: ISession, depositSource:
       : frontmatter?.subtitle;
     frontmatter = { ...fileContent.frontmatter, title, subtitle };
     abstractPart = extractPart(fileContent.mdast, 'abstract');
-    fileContent.references.cite?.order.forEach((key) => {
-      const value = fileContent.references.cite?.data[key].doi;
-      if (value) dois[key] = value;
-      else session.log.warn(`Citation without DOI excluded from zenodo deposit: ${key}`);
-    });
+    citations.push(...citationsFromReferences(fileContent.references.cite));
   }
 
   let abstract: string | undefined;
@@ -110,7 +178,7 @@ export async function depositArticleFromSource(session: ISession, depositSource:
   }
   return {
     frontmatter: frontmatter ?? {},
-    dois,
+    citations,
     abstract,
     configFile,
     project: projectFrontmatter,
@@ -185,183 +253,247 @@ async function getDepositSources(
   return depositSources;
 }
 
-function issueDataFromArticles(articles: { frontmatter: ProjectFrontmatter }[]) {
-  let venueTitle: string | undefined;
-  let venueAbbr: string | undefined;
-  let venueDoi: string | undefined;
-  let venueUrl: string | undefined;
-  let volumeNumber: string | undefined;
-  let volumeDoi: string | undefined;
-  let issueNumber: string | undefined;
-  let issueDoi: string | undefined;
-  let journalSeries: string | undefined;
-  let journalIssn: string | undefined;
-  let eventNumber: string | number | undefined;
-  let eventDate: string | undefined;
-  let eventLocation: string | undefined;
-  let volumeTitle: string | undefined;
-  let venuePublisher: string | undefined;
-  let volumeSubject: string | undefined;
-  let publicationEditors:
-    | (Omit<Contributor, 'affiliations'> & { affiliations: Affiliation[] })[]
-    | undefined;
-  articles.forEach(({ frontmatter }) => {
-    const { volume, issue, venue, editors, contributors, affiliations } = frontmatter;
-    if (venue?.title) {
-      if (!venueTitle) {
-        venueTitle = venue.title;
-      } else if (venueTitle !== venue.title) {
-        throw new Error(`Conflicting venue titles: "${venueTitle}" and "${venue.title}"`);
-      }
-    }
-    if (venue?.short_title) {
-      if (!venueAbbr) {
-        venueAbbr = venue.short_title;
-      } else if (venueAbbr !== venue.short_title) {
-        throw new Error(
-          `Conflicting journal abbreviations: "${venueAbbr}" and "${venue.short_title}"`,
-        );
-      }
-    }
-    if (venue?.doi) {
-      if (!venueDoi) {
-        venueDoi = venue.doi;
-      } else if (venueDoi !== venue.doi) {
-        throw new Error(`Conflicting journal dois: "${venueDoi}" and "${venue.doi}"`);
-      }
-    }
-    if (venue?.url) {
-      if (!venueUrl) {
-        venueUrl = venue.url;
-      } else if (venueUrl !== venue.url) {
-        throw new Error(`Conflicting venue urls: "${venueUrl}" and "${venue.url}"`);
-      }
-    }
-    if (venue?.series) {
-      if (!journalSeries) {
-        journalSeries = venue.series;
-      } else if (journalSeries !== venue.series) {
-        throw new Error(`Conflicting series: "${journalSeries}" and "${venue.series}"`);
-      }
-    }
-    if (venue?.issn) {
-      if (!journalIssn) {
-        journalIssn = venue.issn;
-      } else if (journalIssn !== venue.issn) {
-        throw new Error(`Conflicting issn: "${journalIssn}" and "${venue.issn}"`);
-      }
-    }
-    if (venue?.number != null) {
-      if (!eventNumber) {
-        eventNumber = venue.number;
-      } else if (eventNumber !== venue.number) {
-        throw new Error(`Conflicting event number: "${eventNumber}" and "${venue.number}"`);
-      }
-    }
-    if (venue?.date != null) {
-      if (!eventDate) {
-        eventDate = venue.date;
-      } else if (eventDate !== venue.date) {
-        throw new Error(`Conflicting event date: "${eventDate}" and "${venue.date}"`);
-      }
-    }
-    if (venue?.location != null) {
-      if (!eventLocation) {
-        eventLocation = venue.location;
-      } else if (eventLocation !== venue.location) {
-        throw new Error(`Conflicting event location: "${eventLocation}" and "${venue.location}"`);
-      }
-    }
-    if (venue?.publisher != null) {
-      if (!venuePublisher) {
-        venuePublisher = venue.publisher;
-      } else if (venuePublisher !== venue.publisher) {
-        throw new Error(
-          `Conflicting venue publisher: "${venuePublisher}" and "${venue.publisher}"`,
-        );
-      }
-    }
-    if (volume?.number) {
-      if (!volumeNumber) {
-        volumeNumber = String(volume.number);
-      } else if (volumeNumber !== String(volume.number)) {
-        throw new Error(`Conflicting volumes: "${volumeNumber}" and "${volume.number}"`);
-      }
-    }
-    if (volume?.doi) {
-      if (!volumeDoi) {
-        volumeDoi = volume.doi;
-      } else if (volumeDoi !== volume.doi) {
-        throw new Error(`Conflicting volume dois: "${volumeDoi}" and "${volume.doi}"`);
-      }
-    }
-    if (issue?.number) {
-      if (!issueNumber) {
-        issueNumber = String(issue.number);
-      } else if (issueNumber !== String(issue.number)) {
-        throw new Error(`Conflicting issues: "${issueNumber}" and "${issue.number}"`);
-      }
-    }
-    if (issue?.doi) {
-      if (!issueDoi) {
-        issueDoi = issue.doi;
-      } else if (issueDoi !== issue.doi) {
-        throw new Error(`Conflicting issue dois: "${issueDoi}" and "${issue.doi}"`);
-      }
-    }
-    if (volume?.title) {
-      if (!volumeTitle) {
-        volumeTitle = volume.title;
-      } else if (volumeTitle !== volume.title) {
-        throw new Error(`Conflicting volume titles: "${volumeTitle}" and "${volume.title}"`);
-      }
-    }
-    if (volume?.subject) {
-      if (!volumeSubject) {
-        volumeSubject = volume.subject;
-      } else if (volumeSubject !== volume.subject) {
-        throw new Error(
-          `Conflicting proceedings subjects: "${volumeSubject}" and "${volume.subject}"`,
-        );
-      }
-    }
-    if (editors?.length) {
-      publicationEditors = (editors
-        ?.map((editor) => contributors?.find(({ id }) => editor === id))
-        .filter((editor): editor is Contributor => !!editor)
-        .map((editor) => ({
-          ...editor,
-          affiliations: editor.affiliations?.map((aff) =>
-            affiliations?.find((test) => test.id === aff),
-          ) as Affiliation[],
-        })) ?? []) as (Contributor & { affiliations: Affiliation[] })[];
-    }
+export type DepositArticle = Awaited<ReturnType<typeof depositArticleFromSource>>;
+
+/**
+ * Load all articles for deposit from the current path or `--file` option
+ *
+ * Articles are sorted by first page and an error is thrown if none are found.
+ */
+export async function loadDepositArticles(
+  session: ISession,
+  opts: Pick<DepositOptions, 'file'>,
+): Promise<DepositArticle[]> {
+  const depositSources = await getDepositSources(session, opts);
+  const depositArticles = (
+    await Promise.all(depositSources.map((source) => depositArticleFromSource(session, source)))
+  ).sort((a, b) => Number(a.frontmatter.first_page) - Number(b.frontmatter.first_page));
+  if (depositArticles.length === 0) {
+    throw Error('nothing found for deposit');
+  }
+  return depositArticles;
+}
+
+/**
+ * Build Zenodo deposition metadata from a deposit article and shared issue data
+ */
+export function depositionMetadataFromArticle(
+  session: ISession,
+  article: DepositArticle,
+  issueData: IssueData,
+  opts: {
+    depositType: UploadType;
+    publicationType?: PublicationType;
+    imageType?: ImageType;
+    community?: string;
+    referenceFormat?: ReferenceFormat;
+    access?: AccessRight;
+    embargoDate?: string;
+    accessConditions?: string;
+  },
+): DepositionMetadata {
+  const { frontmatter, abstract, citations, configFile } = article;
+  const zenodoConfig = getZenodoConfig(configFile);
+  if (!frontmatter.title) throw new Error('The deposit must have a title');
+  if (!abstract) throw new Error('The deposit must have an abstract');
+  const data = frontmatterToDepositionMetadata(frontmatter, {
+    uploadType: opts.depositType,
+    publicationType: opts.publicationType,
+    imageType: opts.imageType,
+    description: abstract,
+    community: opts.community,
+    issue: issueData,
+    citations,
+    referenceFormat: opts.referenceFormat,
+    relatedIdentifiers: zenodoConfig.related_identifiers,
+    onWarning: (message) => session.log.warn(`⚠️  "${frontmatter.title}" ${message}`),
   });
-  return {
-    venueTitle,
-    venueDoi,
-    venueAbbr,
-    venueUrl,
-    volumeNumber,
-    volumeDoi,
-    issueNumber,
-    issueDoi,
-    journalSeries,
-    journalIssn,
-    eventNumber,
-    eventDate,
-    eventLocation,
-    volumeTitle,
-    venuePublisher,
-    volumeSubject,
-    publicationEditors,
-  };
+  // Command line options take precedence over the zenodo_deposit project options
+  const accessRight = opts.access ?? zenodoConfig.access_right;
+  const embargoDate = opts.embargoDate ?? zenodoConfig.embargo_date;
+  const accessConditions = opts.accessConditions ?? zenodoConfig.access_conditions;
+  if (accessRight) data.access_right = accessRight;
+  if (embargoDate) data.embargo_date = embargoDate;
+  if (accessConditions) data.access_conditions = accessConditions;
+  return data;
+}
+
+/**
+ * DOI reserved for a draft deposit, if any
+ */
+function prereservedDoi(deposition: Deposition): string | undefined {
+  const { prereserve_doi } = deposition.metadata;
+  return typeof prereserve_doi === 'object' ? prereserve_doi.doi : undefined;
+}
+
+const ZENODO_DOI = /^10\.(5281|5072)\/zenodo\.(\d+)$/i;
+
+/**
+ * The DOI if it is a Zenodo DOI of another record than the deposition, e.g. the DOI of the
+ * previous version left in the config when a run stopped after creating a new version
+ *
+ * Zenodo only accepts its own DOIs for the record they were registered for.
+ */
+export function otherZenodoDoi(
+  doi: string | undefined,
+  deposition: Deposition,
+): string | undefined {
+  const match = doi?.match(ZENODO_DOI);
+  if (!doi || !match || Number(match[2]) === deposition.id) return undefined;
+  const ownDois = [deposition.doi, deposition.metadata.doi, prereservedDoi(deposition)];
+  if (ownDois.some((ownDoi) => ownDoi?.toLowerCase() === doi.toLowerCase())) return undefined;
+  return doi;
+}
+
+/**
+ * Write the DOI reserved for a deposition to the config, returning the DOI
+ */
+export function saveReservedDoi(
+  configFile: string | undefined,
+  configDoi: string | undefined,
+  deposition: Deposition,
+): string {
+  const doi = prereservedDoi(deposition);
+  if (!doi) throw new Error(`No DOI was reserved for deposit ${deposition.id}`);
+  if (!configDoi) addDoiToConfig(configFile, doi);
+  else if (configDoi !== doi) updateDoiInConfig(configFile, doi);
+  return doi;
+}
+
+/**
+ * Add the DOI of a published deposition to the config, or replace a DOI of another Zenodo record
+ *
+ * Any other DOI set by the user is kept, with a warning.
+ */
+export function updatePublishedDoi(
+  session: ISession,
+  configFile: string | undefined,
+  configDoi: string | undefined,
+  publishedData: Deposition,
+  previousDoi?: string,
+) {
+  const publishedDoi = publishedData.doi || publishedData.metadata.doi;
+  if (!publishedDoi) {
+    session.log.warn(`No DOI returned for published deposit ${publishedData.id}`);
+  } else if (!configDoi) {
+    addDoiToConfig(configFile, publishedDoi);
+  } else if (configDoi === previousDoi || otherZenodoDoi(configDoi, publishedData)) {
+    updateDoiInConfig(configFile, publishedDoi);
+  } else if (configDoi !== publishedDoi) {
+    session.log.warn(
+      `⚠️  Kept DOI ${configDoi} in the config, deposit ${publishedData.id} was published with DOI ${publishedDoi}`,
+    );
+  }
+}
+
+/**
+ * Keep the access of an existing deposit unless it is changed, so a restricted or embargoed
+ * deposit is not opened when its metadata is replaced
+ */
+export function keepExistingAccess(data: DepositionMetadata, deposition: Deposition) {
+  if (data.access_right) return;
+  data.access_right = deposition.metadata.access_right;
+  data.embargo_date ??= deposition.metadata.embargo_date;
+  data.access_conditions ??= deposition.metadata.access_conditions;
+}
+
+/**
+ * Keep a DOI reserved for the deposit by reserving it again, rather than setting the DOI
+ */
+export function keepReservedDoi(data: DepositionMetadata, deposition: Deposition) {
+  const reservedDoi = prereservedDoi(deposition);
+  if (reservedDoi && data.doi === reservedDoi) {
+    delete data.doi;
+    data.prereserve_doi = true;
+  }
+}
+
+/**
+ * Add the contents of the folders that are zipped for upload to the deposit description
+ */
+function addFolderManifest(
+  metadata: DepositionMetadata,
+  article: DepositArticle,
+  selection: FileSelection,
+) {
+  const { configFile, project } = article;
+  if (!configFile) return;
+  const manifest = folderManifestHtml(resolveFilesToUpload(configFile, project, selection));
+  if (manifest) metadata.description = `${metadata.description}${manifest}`;
+}
+
+/**
+ * Size of a local file, or the total size of the files in a folder, undefined if missing
+ */
+function fileSize(file: string): number | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  if (!isFolder(file)) return fs.statSync(file).size;
+  return folderManifest(file).reduce((total, { size }) => total + size, 0);
+}
+
+export type DepositPlan = {
+  title?: string;
+  configFile?: string;
+  /** Existing deposit ID, undefined if a new deposit would be created */
+  depositId?: number;
+  metadata: DepositionMetadata;
+  validation: ValidationResult;
+  files: { path: string; name: string; size?: number }[];
+};
+
+function formatPlanValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Log the deposit plan for each article without calling the Zenodo API or changing any files
+ */
+export function logDepositPlan(
+  session: ISession,
+  plans: DepositPlan[],
+  opts: { json?: boolean } = {},
+) {
+  if (opts.json) {
+    console.log(JSON.stringify(plans, null, 2));
+    return;
+  }
+  plans.forEach(({ title, configFile, depositId, metadata, files }) => {
+    session.log.info(`\n📄 "${title}"`);
+    session.log.info(`   Config: ${configFile ? path.relative('.', configFile) : 'none'}`);
+    session.log.info(`   Deposit: ${depositId ? `existing ${depositId}` : 'new'}`);
+    session.log.info('   Metadata:');
+    const width = Math.max(...Object.keys(metadata).map((key) => key.length));
+    Object.entries(metadata)
+      .filter(([, value]) => value != null)
+      .forEach(([key, value]) => {
+        session.log.info(`     ${key.padEnd(width)}  ${formatPlanValue(value)}`);
+      });
+    session.log.info(`   Files (${files.length}):`);
+    files.forEach(({ name, size }) => {
+      session.log.info(`     ${name}  ${size == null ? '🚨 missing' : formatBytes(size)}`);
+    });
+  });
+}
+
+/**
+ * Wait for all file operations to finish, then throw the first error
+ */
+async function allFiles(operations: Promise<void>[]) {
+  const results = await Promise.allSettled(operations);
+  const failed = results.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected',
+  );
+  if (failed) throw failed.reason;
 }
 
 async function deposit(session: Session, opts: DepositOptions) {
   let { type: depositType } = opts;
-  const { sandbox, community, publish } = opts;
-  const client = new ZenodoClient(process.env.ZENODO_TOKEN, sandbox);
+  const { sandbox, community, references, publish, newVersion, keepFiles, prune, dryRun } = opts;
+  const { access, embargoDate, accessConditions, reserveDoi, resume } = opts;
+  const { publicationType, imageType, include, exclude, zip, manifest } = opts;
+  const selection = { include, exclude, zip };
+  const concurrency = opts.concurrency ?? 1;
   if (!depositType) {
     const choices: { name: string; value: UploadType }[] = [
       { name: 'Publication', value: 'publication' },
@@ -389,164 +521,360 @@ async function deposit(session: Session, opts: DepositOptions) {
     throw new Error('No deposit type specified');
   }
 
-  const depositSources = await getDepositSources(session, opts);
-  const depositArticles = (
-    await Promise.all(depositSources.map((source) => depositArticleFromSource(session, source)))
-  ).sort((a, b) => Number(a.frontmatter.first_page) - Number(b.frontmatter.first_page));
-  if (depositArticles.length === 0) {
-    throw Error('nothing found for deposit');
-  }
+  const depositArticles = await loadDepositArticles(session, opts);
   session.log.info(
     `🔍 Found ${plural('%s article(s)', depositArticles)} for ${depositType} deposit`,
   );
-  const { venueTitle, venueAbbr, venueUrl, eventDate, eventLocation, publicationEditors } =
-    issueDataFromArticles(depositArticles);
+  const issueData = issueDataFromArticles(depositArticles);
+  const validated = depositArticles.map((article) => {
+    const metadata = depositionMetadataFromArticle(session, article, issueData, {
+      depositType,
+      publicationType,
+      imageType,
+      community,
+      referenceFormat: references,
+      access,
+      embargoDate,
+      accessConditions,
+    });
+    if (manifest) addFolderManifest(metadata, article, selection);
+    const validation = validateDepositionMetadata(metadata);
+    logValidation(session, article.frontmatter.title, validation);
+    return { article, metadata, validation };
+  });
 
-  for (let index = 0; index < depositArticles.length; index++) {
-    const { configFile, frontmatter, abstract, project } = depositArticles[index];
+  if (dryRun) {
+    const plans = validated.map(({ article, metadata, validation }): DepositPlan => {
+      const { configFile, frontmatter, project } = article;
+      return {
+        title: frontmatter.title,
+        configFile,
+        depositId: getZenodoId(configFile),
+        metadata,
+        validation,
+        files: configFile
+          ? resolveFilesToUpload(configFile, project, selection).map((file) => ({
+              path: file,
+              name: depositFileName(file),
+              size: fileSize(file),
+            }))
+          : [],
+      };
+    });
+    logDepositPlan(session, plans, opts);
+    return;
+  }
+  if (validated.find(({ validation }) => !validation.valid)) {
+    throw new Error('Deposit metadata is invalid, fix the errors above before depositing');
+  }
+
+  const client = new ZenodoClient(process.env.ZENODO_TOKEN, sandbox, {
+    checksumRetries: 1,
+    concurrency,
+  });
+  let journal = resume ? DepositJournal.load() : undefined;
+  if (resume && !journal) {
+    session.log.warn(`⚠️  No journal found at ${JOURNAL_FILE}, starting from the beginning`);
+  } else if (!resume && DepositJournal.exists()) {
+    session.log.warn(
+      `⚠️  Replacing the journal of an unfinished run at ${JOURNAL_FILE}, use --resume to continue it`,
+    );
+  }
+  journal ??= DepositJournal.create();
+  const depositArticle = async (article: DepositArticle, metadata: DepositionMetadata) => {
+    const { configFile, frontmatter, project } = article;
     session.log.info(`\nProcessing: "${frontmatter.title}"`);
     if (!configFile) {
       throw new Error(`No config file found for source: ${frontmatter.title}`);
     }
+    const source = path.relative('.', configFile);
+    const state = journal.source(source);
+    if (state.steps.published) {
+      session.log.info(`⏭️  Deposit ${state.depositId} was already published`);
+      return;
+    }
     let zenodoDepositId = getZenodoId(configFile);
+    if (state.depositId && state.depositId !== zenodoDepositId) {
+      // The run stopped before the deposit ID was written to the config
+      updateZenodoInConfig(configFile, state.depositId, sandbox);
+      zenodoDepositId = state.depositId;
+      session.log.info(`↩️  Restored deposit ID ${zenodoDepositId} from ${JOURNAL_FILE}`);
+    }
     if (!zenodoDepositId) {
       const createdData = await client.createEmptyDeposition();
       zenodoDepositId = createdData.id;
       session.log.debug(JSON.stringify(createdData, null, 2));
       session.log.info(`🎉 Created deposit ${zenodoDepositId}: ${createdData.links.html}`);
+      journal.setDepositId(source, zenodoDepositId);
+      journal.complete(source, 'created');
       addZenodoToConfig(configFile, zenodoDepositId, sandbox);
     } else {
       session.log.info(`🔍 Found existing deposit ID ${zenodoDepositId}`);
     }
-    const existingData = await client.getDeposition(zenodoDepositId);
+    let existingData = await client.getDeposition(zenodoDepositId);
+    // A new version created before the run stopped is already a draft
+    let previousDoi = state.newVersion?.previousDoi;
+    let isNewVersion = !!state.newVersion;
+    let configDoi = frontmatter.doi;
     if (existingData.submitted) {
-      throw new Error(`Deposit ${zenodoDepositId} already submitted`);
+      if (!newVersion) {
+        throw new Error(
+          `Deposit ${zenodoDepositId} already submitted, use --new-version to create a new version`,
+        );
+      }
+      isNewVersion = true;
+      previousDoi = existingData.metadata.doi;
+      const draftData = await client.newVersion(zenodoDepositId);
+      session.log.debug(JSON.stringify(draftData, null, 2));
+      session.log.info(
+        `🆕 Created new version ${draftData.id} of deposit ${zenodoDepositId}: ${draftData.links.html}`,
+      );
+      journal.setDepositId(source, draftData.id, { previousDoi });
+      updateZenodoInConfig(configFile, draftData.id, sandbox);
+      zenodoDepositId = draftData.id;
+      existingData = draftData;
     }
-    if (!frontmatter.title) throw new Error('The deposit must have a title');
-    if (!abstract) throw new Error('The deposit must have an abstract');
-    const data: DepositionMetadata = {
-      title: frontmatter.title,
-      description: abstract,
-      upload_type: depositType,
-      publication_date: frontmatter.date,
-      imprint_publisher: venueAbbr || venueTitle,
-      creators:
-        frontmatter.authors?.map((a) => ({
-          // TODO: improve this for non-western name, particles, etc.
-          name: `${a.nameParsed?.family}, ${a.nameParsed?.given}` as string,
-          affiliation: a.affiliations
-            ?.map((aff) => frontmatter.affiliations?.find((test) => test.id === aff))
-            ?.map((aff) => aff?.name)
-            ?.filter((aff) => !!aff)
-            .join(', '),
-          orcid: a.orcid,
-        })) ?? [],
-      doi: frontmatter.doi,
-    };
-    if (community) {
-      data.communities = [{ identifier: community }];
+    // The validated metadata is shared with the plan, so it is copied before it is changed
+    const data = { ...metadata };
+    // A new version is assigned its own DOI when published
+    if (previousDoi && data.doi === previousDoi) delete data.doi;
+    keepReservedDoi(data, existingData);
+    keepExistingAccess(data, existingData);
+    const otherDoi = otherZenodoDoi(data.doi, existingData);
+    if (otherDoi) {
+      delete data.doi;
+      // Replaced in the config once published, unless it is the concept DOI of all versions
+      if (otherDoi !== existingData.conceptdoi) previousDoi ??= otherDoi;
     }
-    if (depositType === 'presentation' || depositType === 'poster') {
-      data.conference_title = venueTitle;
-      data.contributors = publicationEditors?.map(
-        (e): ZenodoContributor => ({
-          type: 'Editor',
-          name: e.name as string,
-          orcid: e.orcid,
-          affiliation: e.affiliations.map((a) => a.name).join(', '),
-        }),
-      );
-      data.conference_acronym = venueAbbr;
-      data.conference_url = venueUrl;
-      data.conference_dates = eventDate;
-      data.conference_place = eventLocation;
-      if (frontmatter.github) {
-        data.custom = {
-          'code:codeRepository': frontmatter.github,
-        };
+    if (reserveDoi) {
+      if (data.doi) {
+        throw new Error(
+          `Cannot reserve a DOI for "${frontmatter.title}", it already has DOI ${data.doi}`,
+        );
       }
+      data.prereserve_doi = true;
     }
     session.log.debug(JSON.stringify(data, null, 2));
-    const updatedData = await client.updateDeposition(zenodoDepositId, data);
-    session.log.debug(JSON.stringify(updatedData, null, 2));
-    session.log.info(`✍️ Updated deposit ${zenodoDepositId}: ${updatedData.links.html}`);
-    if (updatedData.files?.length) {
+    let updatedData: Deposition;
+    // A DOI requested in this run is only reserved when the metadata is updated
+    if (state.steps.metadata && (!reserveDoi || prereservedDoi(existingData))) {
+      updatedData = existingData;
+      session.log.info(`⏭️  Metadata of deposit ${zenodoDepositId} was already updated`);
+    } else {
+      updatedData = await client.updateDeposition(zenodoDepositId, data);
+      session.log.debug(JSON.stringify(updatedData, null, 2));
+      session.log.info(`✍️ Updated deposit ${zenodoDepositId}: ${updatedData.links.html}`);
+      journal.complete(source, 'metadata');
+    }
+    if (reserveDoi) {
+      configDoi = saveReservedDoi(configFile, configDoi, updatedData);
+      session.log.info(`🔖 Reserved DOI ${configDoi}, rebuild your files to include it`);
+    }
+    if (keepFiles && isNewVersion) {
       session.log.info(
-        `🛑 Skipping files - deposit already has ${plural('%s file(s)', updatedData.files)} uploaded`,
+        `📎 Keeping ${plural('%s file(s)', updatedData.files)} from the previous version`,
       );
     } else {
-      let filesToUpload = project?.downloads
-        ?.map((download) => download?.url)
-        .filter((download): download is string => !!download)
-        .map((download) => path.resolve(path.dirname(configFile), download));
-      if (!filesToUpload?.length) {
-        filesToUpload = fs
-          .readdirSync(path.dirname(configFile))
-          .filter((file) => DEPOSIT_FILE_EXTENSIONS.find((ext) => file.toLowerCase().endsWith(ext)))
-          .map((file) => path.resolve(path.dirname(configFile), file));
+      const resolvedFiles = resolveFilesToUpload(configFile, project, selection);
+      if (!resolvedFiles.length && reserveDoi && !publish) {
+        session.log.info(`📎 No files found to upload yet for deposit ${zenodoDepositId}`);
+        return;
       }
-      if (!filesToUpload?.length) {
+      if (!resolvedFiles.length) {
         throw new Error(`🚨 No files found to upload for deposit ${zenodoDepositId}`);
       }
-      session.log.info(`🔍 Found ${plural('%s file(s)', filesToUpload)} to upload`);
-      for (let jj = 0; jj < filesToUpload.length; jj++) {
-        session.log.debug(`Uploading ${filesToUpload[jj]}`);
+      session.log.info(`🔍 Found ${plural('%s file(s)', resolvedFiles)} locally:`);
+      resolvedFiles.forEach((file) => {
+        const relative = path.relative(path.dirname(configFile), file);
+        session.log.info(
+          isFolder(file)
+            ? `   ${relative}/ (zipped as ${depositFileName(file)})`
+            : `   ${relative}`,
+        );
+      });
+      // Folders are hashed as zip streams, and only written to disk if they are uploaded
+      const localFiles = await loadLocalFilesAndFolders(resolvedFiles);
+      // Files copied from a previous version are replaced by the local files
+      const plan = planFileSync(localFiles, updatedData.files ?? [], {
+        prune: prune || isNewVersion,
+      });
+      logFileSyncPlan(session, plan);
+      await allFiles(
+        plan.delete.map(async (file) => {
+          session.log.debug(`Deleting ${file.filename}`);
+          await client.deleteFile(zenodoDepositId, file.id);
+        }),
+      );
+      if (plan.upload.length) {
+        // Bars of parallel deposits would overwrite each other, so progress is logged instead
+        const progress = new UploadProgressBars(session, plan.upload, {
+          logSteps: concurrency > 1,
+        });
         try {
-          await client.uploadFile(existingData.links.bucket, filesToUpload[jj]);
-        } catch (error) {
-          session.log.warn('Error writing file, trying again!');
-          await client.uploadFile(existingData.links.bucket, filesToUpload[jj]);
+          await withZippedFolders(
+            plan.upload.map(({ path: file }) => file),
+            (uploadFiles) =>
+              allFiles(
+                plan.upload.map(async (file, index) => {
+                  session.log.debug(`Uploading ${file.path}`);
+                  // Changed files are removed first, so the new content is not rejected as a duplicate
+                  if (file.remote) await client.deleteFile(zenodoDepositId, file.remote.id);
+                  const uploadedData = await client.uploadFile(
+                    existingData.links.bucket,
+                    uploadFiles[index],
+                    { onProgress: ({ loaded }) => progress.update(file.name, loaded) },
+                  );
+                  progress.complete(
+                    file.name,
+                    `✅ Verified ${uploadedData.key} (${uploadedData.checksum})`,
+                  );
+                }),
+              ),
+          );
+        } finally {
+          progress.stop();
         }
+        session.log.info(
+          `🔒 Checksums verified for ${plural('%s file(s)', plan.upload)} in deposit ${zenodoDepositId}`,
+        );
+      } else {
+        session.log.info(`👍 All files are up to date in deposit ${zenodoDepositId}`);
       }
     }
     if (publish) {
       const publishedData = await client.publishDeposition(zenodoDepositId);
       session.log.debug(JSON.stringify(publishedData, null, 2));
-      if (!frontmatter.doi) {
-        addDoiToConfig(configFile, publishedData.metadata.doi);
-      }
+      updatePublishedDoi(session, configFile, configDoi, publishedData, previousDoi);
+      journal.complete(source, 'published');
       session.log.info(`🚀 Published deposit ${zenodoDepositId}: ${publishedData.links.html}`);
     }
+  };
+
+  // Articles are deposited in parallel, and their requests share the limit of the client
+  const limit = createLimit(concurrency);
+  const failures: { title?: string; message: string }[] = [];
+  await Promise.all(
+    validated.map(({ article, metadata }) =>
+      limit(async () => {
+        try {
+          await depositArticle(article, metadata);
+        } catch (error) {
+          if (depositArticles.length === 1) {
+            session.log.info(`💾 Progress is saved in ${JOURNAL_FILE}, use --resume to continue`);
+            throw error;
+          }
+          const { title } = article.frontmatter;
+          const message = error instanceof Error ? error.message : String(error);
+          logZenodoError(session, error);
+          session.log.error(`🚨 Deposit of "${title}" failed: ${message}`);
+          failures.push({ title, message });
+        }
+      }),
+    ),
+  );
+  if (!failures.length) {
+    journal.remove();
+    return;
   }
+  session.log.error(
+    `\n🚨 ${failures.length} of ${plural('%s deposit(s)', depositArticles)} failed:`,
+  );
+  failures.forEach(({ title, message }) => {
+    session.log.error(`   "${title}": ${message}`);
+  });
+  throw new Error(
+    `${plural('%s deposit(s)', failures)} failed, fix the errors above and use --resume to continue`,
+  );
 }
 
 function makeDepositCLI(program: Command) {
-  const choices: UploadType[] = [
-    'publication',
-    'poster',
-    'presentation',
-    'dataset',
-    'image',
-    'video',
-    'software',
-    'lesson',
-    'physicalobject',
-    'other',
-  ];
   const command = new Command('deposit')
     .description('Create Zenodo deposit XML from local MyST content')
     .addOption(new Option('--file <value>', 'File to deposit'))
     .addOption(
-      new Option('--type <value>', 'Deposit type').choices(choices).default('presentation'),
+      new Option('--type <value>', 'Deposit type').choices(UPLOAD_TYPES).default('presentation'),
+    )
+    .addOption(
+      new Option(
+        '--publication-type <value>',
+        'Publication type, for publication deposits',
+      ).choices(PUBLICATION_TYPES),
+    )
+    .addOption(
+      new Option('--image-type <value>', 'Image type, for image deposits').choices(IMAGE_TYPES),
     )
     .addOption(new Option('--community <value>', 'Zenodo community identifier'))
+    .addOption(
+      new Option('--references <format>', 'Add references as DOIs or full formatted references')
+        .choices(REFERENCE_FORMATS)
+        .default('full'),
+    )
+    .addOption(new Option('--access <value>', 'Access right of the deposit').choices(ACCESS_RIGHTS))
+    .addOption(
+      new Option(
+        '--embargo-date <date>',
+        'Date the embargo ends (YYYY-MM-DD), for embargoed access',
+      ),
+    )
+    .addOption(
+      new Option(
+        '--access-conditions <value>',
+        'Conditions to access files, for restricted access',
+      ),
+    )
+    .addOption(
+      new Option('--include <glob>', 'Files to upload, relative to the project (repeatable)')
+        .argParser(collect)
+        .default([]),
+    )
+    .addOption(
+      new Option('--exclude <glob>', 'Files to leave out, relative to the project (repeatable)')
+        .argParser(collect)
+        .default([]),
+    )
+    .addOption(
+      new Option('--zip <folder>', 'Folder to upload as a zip file (repeatable)')
+        .argParser(collect)
+        .default([]),
+    )
+    .addOption(
+      new Option('--manifest', 'Add the files of zipped folders to the deposit description'),
+    )
+    .addOption(
+      new Option('--concurrency <n>', 'Number of articles and files to upload in parallel')
+        .argParser(parsePositiveInteger)
+        .default(1),
+    )
+    .addOption(
+      new Option('--resume', `Continue an interrupted run from the journal in ${JOURNAL_FILE}`),
+    )
     .addOption(new Option('--sandbox', 'Use the sandbox for testing purposes'))
+    .addOption(
+      new Option('--reserve-doi', 'Reserve a DOI for the deposit and add it to your myst.yml'),
+    )
     .addOption(new Option('--publish', 'Publish the resource'))
-    .action(clirun(deposit, { program, getSession: (logger) => new Session({ logger }) }));
+    .addOption(
+      new Option('--new-version', 'Create a new version if the deposit is already published'),
+    )
+    .addOption(
+      new Option('--keep-files', 'Copy files forward from the previous version of the deposit'),
+    )
+    .addOption(new Option('--prune', 'Delete files from the deposit that are not found locally'))
+    .addOption(
+      new Option('--dry-run', 'Print the deposit plan without creating or changing deposits'),
+    )
+    .addOption(new Option('--json', 'Print the deposit plan as JSON, used with --dry-run'))
+    .action(
+      clirun(logZenodoErrors(deposit), {
+        program,
+        // Logs are sent to stderr with --json, so the printed plan can be piped
+        getSession: (logger, opts) =>
+          new Session({ logger: command.opts().json ? stderrLogger(opts?.debug) : logger }),
+      }),
+    );
   return command;
 }
 
 export function addDepositCLI(program: Command) {
   program.addCommand(makeDepositCLI(program));
 }
-
-function getZenodoId(configFile: string | undefined): number | undefined {
-  // This shouldn't be needed in the future
-  if (!configFile) return undefined;
-  const data = yamlLoad(fs.readFileSync(configFile).toString()) as {
-    project: { identifiers?: { zenodo?: string } };
-  };
-  const url = data?.project?.identifiers?.zenodo;
-  if (!url) return undefined;
-  return Number.parseInt(String(url).split('/').slice(-1)[0], 10);
-}
@@ -0,0 +1,128 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import type { ProjectFrontmatter } from 'myst-frontmatter';
+import type { DepositionFile } from '../index.js';
+import type { FileSelection, LocalFile } from './files.js';
+import { formatBytes, planFileSync, resolveFilesToUpload } from './files.js';
+
+function local(name: string, size: number, checksum: string): LocalFile {
+  return { path: `/project/${name}`, name, size, checksum };
+}
+
+function remote(filename: string, filesize: number, checksum: string): DepositionFile {
+  return { id: filename, filename, filesize, checksum, links: { self: '', download: '' } };
+}
+
+describe('planFileSync', () => {
+  const localFiles = [local('poster.pdf', 10, 'aaa'), local('slides.pptx', 20, 'bbb')];
+
+  it('uploads new files', () => {
+    const plan = planFileSync(localFiles, []);
+    expect(plan.upload.map(({ name, reason }) => [name, reason])).toEqual([
+      ['poster.pdf', 'new'],
+      ['slides.pptx', 'new'],
+    ]);
+  });
+  it('uploads changed files and skips unchanged files', () => {
+    const plan = planFileSync(localFiles, [
+      remote('poster.pdf', 10, 'aaa'),
+      remote('slides.pptx', 20, 'ccc'),
+    ]);
+    expect(plan.unchanged.map(({ name }) => name)).toEqual(['poster.pdf']);
+    expect(plan.upload.map(({ name, reason }) => [name, reason])).toEqual([
+      ['slides.pptx', 'changed'],
+    ]);
+    expect(plan.upload[0].remote?.id).toBe('slides.pptx');
+  });
+  it('keeps remote files missing locally unless pruning', () => {
+    const remoteFiles = [remote('poster.pdf', 10, 'aaa'), remote('old.pdf', 5, 'ddd')];
+    expect(planFileSync(localFiles, remoteFiles).keep.map(({ id }) => id)).toEqual(['old.pdf']);
+    const plan = planFileSync(localFiles, remoteFiles, { prune: true });
+    expect(plan.keep).toEqual([]);
+    expect(plan.delete.map(({ id }) => id)).toEqual(['old.pdf']);
+  });
+});
+
+describe('formatBytes', () => {
+  it('formats file sizes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(5 * 1024 * 1024 * 1024)).toBe('5.0 GB');
+  });
+});
+
+describe('resolveFilesToUpload', () => {
+  let root: string;
+  let configFile: string;
+  function write(file: string, content = '') {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  }
+  function resolve(project?: ProjectFrontmatter, selection?: FileSelection) {
+    return resolveFilesToUpload(configFile, project, selection).map((file) =>
+      path.relative(root, file),
+    );
+  }
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-files-'));
+    configFile = path.join(root, 'myst.yml');
+    write('myst.yml', 'version: 1\nproject: {}\n');
+    write('poster.pdf');
+    write('notes.txt');
+    write('figures/plot.png');
+    write('figures/draft.png');
+    write('_build/exports/poster.pdf');
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+  it('uses files with known extensions in the project folder by default', () => {
+    expect(resolve(undefined)).toEqual(['poster.pdf']);
+  });
+  it('uses downloads and errors for missing downloads', () => {
+    expect(resolve({ downloads: [{ url: 'notes.txt' }] })).toEqual(['notes.txt']);
+    expect(() => resolve({ downloads: [{ url: 'missing.pdf' }] })).toThrow('missing.pdf');
+  });
+  it('includes and excludes files in subfolders', () => {
+    expect(resolve(undefined, { include: ['**/*.png', 'poster.pdf'] })).toEqual([
+      'figures/draft.png',
+      'figures/plot.png',
+      'poster.pdf',
+    ]);
+    expect(resolve(undefined, { include: ['**/*.png'], exclude: ['**/draft.*'] })).toEqual([
+      'figures/plot.png',
+    ]);
+  });
+  it('includes build outputs only for patterns that name them', () => {
+    expect(resolve(undefined, { include: ['**/*.pdf'] })).toEqual(['poster.pdf']);
+    expect(resolve(undefined, { include: ['_build/exports/*.pdf'] })).toEqual([
+      path.join('_build', 'exports', 'poster.pdf'),
+    ]);
+  });
+  it('reads the files section of the config', () => {
+    write(
+      'myst.yml',
+      'version: 1\nproject:\n  options:\n    zenodo_deposit:\n      files:\n        include:\n          - figures/*.png\n',
+    );
+    expect(resolve(undefined, { exclude: ['figures/plot.png'] })).toEqual(['figures/draft.png']);
+  });
+  it('resolves folders to zip', () => {
+    expect(resolve({ downloads: [{ url: 'figures' }] })).toEqual(['figures']);
+    expect(resolve(undefined, { zip: ['figures'] })).toEqual(['figures']);
+    expect(() => resolve(undefined, { zip: ['missing'] })).toThrow('Folder not found: missing');
+    write('other/figures.zip');
+    expect(() => resolve(undefined, { zip: ['figures'], include: ['**/*.zip'] })).toThrow(
+      'same name',
+    );
+  });
+  it('errors for missing included files and duplicate names', () => {
+    expect(() => resolve(undefined, { include: ['missing.pdf'] })).toThrow(
+      'File not found: missing.pdf',
+    );
+    expect(() => resolve(undefined, { include: ['*.docx'] })).toThrow('No files match');
+    write('figures/poster.pdf');
+    expect(() => resolve(undefined, { include: ['**/*.pdf'] })).toThrow('same name');
+  });
+});
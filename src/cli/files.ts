@@ -0,0 +1,245 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import { minimatch } from 'minimatch';
+import type { ISession } from 'myst-cli';
+import type { ProjectFrontmatter } from 'myst-frontmatter';
+import type { DepositionFile } from '../index.js';
+import { getZenodoConfig } from './utils.js';
+
+const DEPOSIT_FILE_EXTENSIONS = ['.pdf', '.pptx', '.png'];
+
+export type LocalFile = {
+  /** Absolute path to the file, or to a folder that is uploaded as a zip file */
+  path: string;
+  /** File name on zenodo */
+  name: string;
+  /** Size of the file in bytes */
+  size: number;
+  /** MD5 checksum of the file */
+  checksum: string;
+};
+
+export type FileSyncPlan = {
+  upload: (LocalFile & { reason: 'new' | 'changed'; remote?: DepositionFile })[];
+  unchanged: LocalFile[];
+  /** Remote files that are not present locally and will be deleted */
+  delete: DepositionFile[];
+  /** Remote files that are not present locally and will be kept */
+  keep: DepositionFile[];
+};
+
+/** Folders that are never searched for files to upload */
+const IGNORED_FOLDERS = ['_build', 'node_modules'];
+
+export type FileSelection = {
+  /** Glob patterns of files to upload, relative to the project folder */
+  include?: string[];
+  /** Glob patterns of files to leave out, relative to the project folder */
+  exclude?: string[];
+  /** Folders to upload as zip files, relative to the project folder */
+  zip?: string[];
+};
+
+/**
+ * List all files in a folder and its subfolders as sorted posix paths, relative to the folder
+ *
+ * Hidden folders and build outputs are skipped, unless build outputs are not in `ignoredFolders`.
+ */
+export function listFolderFiles(
+  root: string,
+  folder = '',
+  ignoredFolders = IGNORED_FOLDERS,
+): string[] {
+  return fs
+    .readdirSync(path.join(root, folder), { withFileTypes: true })
+    .flatMap((entry) => {
+      const relative = path.posix.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || ignoredFolders.includes(entry.name)) return [];
+        return listFolderFiles(root, relative, ignoredFolders);
+      }
+      return entry.isFile() ? [relative] : [];
+    })
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+export function isFolder(file: string): boolean {
+  return fs.existsSync(file) && fs.statSync(file).isDirectory();
+}
+
+/**
+ * Name of a local file on zenodo, folders are uploaded as zip files
+ */
+export function depositFileName(file: string): string {
+  return isFolder(file) ? `${path.basename(file)}.zip` : path.basename(file);
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?[\]{}!]/.test(pattern);
+}
+
+/**
+ * Whether a pattern names a folder that is not searched by default, e.g. `_build/exports/*.pdf`
+ */
+function namesIgnoredFolder(pattern: string): boolean {
+  return pattern.split('/').some((segment) => IGNORED_FOLDERS.includes(segment));
+}
+
+/**
+ * Resolve files to upload for a project
+ *
+ * These are the project `downloads`, any files matching the `include` patterns and the
+ * `zip` folders, from the options or the `options.zenodo_deposit.files` section of the config. Without any
+ * of these, files in the project folder with a known extension are used. Files matching an
+ * `exclude` pattern are left out. Folders are returned as they are, see `withZippedFolders`.
+ *
+ * Missing downloads or folders, include paths without a match and files with the same name
+ * in different folders are errors, as zenodo deposits have no folders.
+ */
+export function resolveFilesToUpload(
+  configFile: string,
+  project: ProjectFrontmatter | undefined,
+  selection: FileSelection = {},
+): string[] {
+  const root = path.dirname(configFile);
+  const { files } = getZenodoConfig(configFile);
+  const include = [...(files?.include ?? []), ...(selection.include ?? [])];
+  const exclude = [...(files?.exclude ?? []), ...(selection.exclude ?? [])];
+  const zip = [...(files?.zip ?? []), ...(selection.zip ?? [])].map((folder) =>
+    path.resolve(root, folder),
+  );
+  const downloads =
+    project?.downloads
+      ?.map((download) => download?.url)
+      .filter((download): download is string => !!download && !download.match(/^https?:\/\//))
+      .map((download) => path.resolve(root, download)) ?? [];
+  const missing = downloads.filter((file) => !fs.existsSync(file));
+  if (missing.length) {
+    throw new Error(
+      `Download(s) not found: ${missing.map((file) => path.relative(root, file)).join(', ')}`,
+    );
+  }
+  zip.forEach((folder) => {
+    if (!isFolder(folder)) throw new Error(`Folder not found: ${path.relative(root, folder)}`);
+  });
+  let filesToUpload = [...downloads, ...zip];
+  if (include.length) {
+    const projectFiles = listFolderFiles(root);
+    // Build outputs are only searched for patterns that name them
+    const allProjectFiles = include.some(namesIgnoredFolder)
+      ? listFolderFiles(root, '', [])
+      : projectFiles;
+    include.forEach((pattern) => {
+      const searched = namesIgnoredFolder(pattern) ? allProjectFiles : projectFiles;
+      const matches = searched.filter((file) => minimatch(file, pattern));
+      if (!matches.length) {
+        throw new Error(
+          isGlob(pattern)
+            ? `No files match the include pattern "${pattern}"`
+            : `File not found: ${pattern}`,
+        );
+      }
+      filesToUpload.push(...matches.map((file) => path.resolve(root, file)));
+    });
+  } else if (!filesToUpload.length) {
+    filesToUpload = fs
+      .readdirSync(root)
+      .filter((file) => DEPOSIT_FILE_EXTENSIONS.find((ext) => file.toLowerCase().endsWith(ext)))
+      .map((file) => path.resolve(root, file));
+  }
+  filesToUpload = [...new Set(filesToUpload)].filter((file) => {
+    const relative = path.relative(root, file).split(path.sep).join('/');
+    return !exclude.find((pattern) => minimatch(relative, pattern));
+  });
+  const names = new Map<string, string>();
+  filesToUpload.forEach((file) => {
+    const name = depositFileName(file);
+    const existing = names.get(name);
+    if (existing) {
+      throw new Error(
+        `Files ${path.relative(root, existing)} and ${path.relative(root, file)} have the same name, zenodo deposits cannot have folders`,
+      );
+    }
+    names.set(name, file);
+  });
+  return filesToUpload;
+}
+
+export function md5File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('md5');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+export async function loadLocalFiles(files: string[]): Promise<LocalFile[]> {
+  return Promise.all(
+    files.map(async (file) => ({
+      path: file,
+      name: path.basename(file),
+      size: fs.statSync(file).size,
+      checksum: await md5File(file),
+    })),
+  );
+}
+
+/**
+ * Compare local files to the files of a deposition by name, size and checksum
+ *
+ * Remote files that are not present locally are only deleted with the `prune` option.
+ */
+export function planFileSync(
+  localFiles: LocalFile[],
+  remoteFiles: DepositionFile[],
+  opts: { prune?: boolean } = {},
+): FileSyncPlan {
+  const plan: FileSyncPlan = { upload: [], unchanged: [], delete: [], keep: [] };
+  localFiles.forEach((file) => {
+    const remote = remoteFiles.find(({ filename }) => filename === file.name);
+    if (!remote) {
+      plan.upload.push({ ...file, reason: 'new' });
+    } else if (remote.filesize !== file.size || remote.checksum !== file.checksum) {
+      plan.upload.push({ ...file, reason: 'changed', remote });
+    } else {
+      plan.unchanged.push(file);
+    }
+  });
+  remoteFiles
+    .filter(({ filename }) => !localFiles.find(({ name }) => name === filename))
+    .forEach((remote) => {
+      if (opts.prune) plan.delete.push(remote);
+      else plan.keep.push(remote);
+    });
+  return plan;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+export function logFileSyncPlan(session: ISession, plan: FileSyncPlan) {
+  session.log.info('📋 File plan:');
+  plan.upload.forEach(({ name, size, reason }) => {
+    session.log.info(`   ⬆️  upload ${name} (${reason}, ${formatBytes(size)})`);
+  });
+  plan.unchanged.forEach(({ name }) => {
+    session.log.info(`   ✔️  unchanged ${name}`);
+  });
+  plan.delete.forEach(({ filename }) => {
+    session.log.info(`   🗑️  delete ${filename}`);
+  });
+  plan.keep.forEach(({ filename }) => {
+    session.log.info(`   ⚠️  keep ${filename} (not found locally, use --prune to delete)`);
+  });
+}
@@ -2,10 +2,16 @@
 import { Command } from 'commander';
 import version from '../version.js';
 import { addDepositCLI } from './deposit.js';
+import { addPublishCLI } from './publish.js';
+import { addPullCLI } from './pull.js';
+import { addUpdateCLI } from './update.js';
 
 const program = new Command();
 
 addDepositCLI(program);
+addUpdateCLI(program);
+addPullCLI(program);
+addPublishCLI(program);
 
 program.version(`v${version}`, '-v, --version', 'Print the current version of zenodo-utils');
 program.option('-d, --debug', 'Log out any errors to the console.');
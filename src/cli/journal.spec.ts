@@ -0,0 +1,53 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { DepositJournal } from './journal.js';
+
+describe('DepositJournal', () => {
+  let root: string;
+  let file: string;
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-journal-'));
+    file = path.join(root, '.zenodo', 'state.json');
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+  it('records the steps of each source', () => {
+    const journal = DepositJournal.create(file);
+    expect(DepositJournal.exists(file)).toBe(true);
+    journal.setDepositId('poster/myst.yml', 1234);
+    journal.complete('poster/myst.yml', 'created');
+    journal.complete('poster/myst.yml', 'metadata');
+    const state = DepositJournal.load(file)?.source('poster/myst.yml');
+    expect(state).toMatchObject({ depositId: 1234 });
+    expect(Object.keys(state?.steps ?? {})).toEqual(['created', 'metadata']);
+    expect(DepositJournal.load(file)?.source('slides/myst.yml')).toEqual({ steps: {} });
+  });
+  it('keeps new versions when the deposit ID changes', () => {
+    const journal = DepositJournal.create(file);
+    journal.setDepositId('poster/myst.yml', 1235, { previousDoi: '10.5281/zenodo.1234' });
+    journal.complete('poster/myst.yml', 'metadata');
+    expect(journal.source('poster/myst.yml')).toMatchObject({
+      depositId: 1235,
+      newVersion: { previousDoi: '10.5281/zenodo.1234' },
+    });
+  });
+  it('is ignored by git', () => {
+    DepositJournal.create(file);
+    expect(fs.readFileSync(path.join(path.dirname(file), '.gitignore')).toString()).toBe('*\n');
+  });
+  it('starts over when created and is removed when done', () => {
+    DepositJournal.create(file).complete('poster/myst.yml', 'published');
+    expect(DepositJournal.create(file).source('poster/myst.yml').steps).toEqual({});
+    DepositJournal.load(file)?.remove();
+    expect(DepositJournal.load(file)).toBeUndefined();
+    expect(fs.existsSync(path.dirname(file))).toBe(false);
+  });
+  it('rejects unknown journals', () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ version: 2 }));
+    expect(() => DepositJournal.load(file)).toThrow('Unrecognized deposit journal');
+  });
+});
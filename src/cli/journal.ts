@@ -0,0 +1,108 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const JOURNAL_FILE = path.join('.zenodo', 'state.json');
+
+export type DepositStep = 'created' | 'metadata' | 'published';
+
+export type SourceState = {
+  /** ID of the deposit of the source, recorded before it is written to the config */
+  depositId?: number;
+  /** Set when a new version was created, so it is still treated as one when resuming */
+  newVersion?: { previousDoi?: string };
+  /** Time each step was completed */
+  steps: Partial<Record<DepositStep, string>>;
+};
+
+type JournalData = {
+  version: 1;
+  sources: Record<string, SourceState>;
+};
+
+/**
+ * Journal of the steps completed for each source of a deposit run, so an interrupted run can be resumed
+ *
+ * Sources are identified by the path of their config file, and the journal is written
+ * to disk after every step. Files are not journaled, on resume they are compared to the
+ * files of the deposit instead. The journal folder has its own `.gitignore`, so it is
+ * not committed to the project.
+ */
+export class DepositJournal {
+  readonly file: string;
+  private data: JournalData;
+
+  private constructor(file: string, data: JournalData) {
+    this.file = file;
+    this.data = data;
+  }
+
+  /**
+   * Start a new journal, replacing any existing journal
+   */
+  static create(file: string = JOURNAL_FILE): DepositJournal {
+    const journal = new DepositJournal(file, { version: 1, sources: {} });
+    journal.save();
+    return journal;
+  }
+
+  /**
+   * Load an existing journal, undefined if there is none
+   */
+  static load(file: string = JOURNAL_FILE): DepositJournal | undefined {
+    if (!fs.existsSync(file)) return undefined;
+    const data = JSON.parse(fs.readFileSync(file).toString()) as JournalData;
+    if (data?.version !== 1 || typeof data.sources !== 'object') {
+      throw new Error(`Unrecognized deposit journal ${file}, remove it to start over`);
+    }
+    return new DepositJournal(file, data);
+  }
+
+  static exists(file: string = JOURNAL_FILE): boolean {
+    return fs.existsSync(file);
+  }
+
+  source(source: string): SourceState {
+    return this.data.sources[source] ?? { steps: {} };
+  }
+
+  setDepositId(source: string, depositId: number, newVersion?: { previousDoi?: string }) {
+    this.update(source, (state) => ({
+      ...state,
+      depositId,
+      ...(newVersion ? { newVersion } : {}),
+    }));
+  }
+
+  complete(source: string, step: DepositStep) {
+    this.update(source, (state) => ({
+      ...state,
+      steps: { ...state.steps, [step]: new Date().toISOString() },
+    }));
+  }
+
+  /**
+   * Remove the journal once the run is complete
+   */
+  remove() {
+    fs.rmSync(this.file, { force: true });
+    const folder = path.dirname(this.file);
+    fs.rmSync(path.join(folder, '.gitignore'), { force: true });
+    if (fs.existsSync(folder) && !fs.readdirSync(folder).length) fs.rmdirSync(folder);
+  }
+
+  private update(source: string, change: (state: SourceState) => SourceState) {
+    this.data.sources[source] = change(this.source(source));
+    this.save();
+  }
+
+  private save() {
+    const folder = path.dirname(this.file);
+    fs.mkdirSync(folder, { recursive: true });
+    const gitignore = path.join(folder, '.gitignore');
+    if (!fs.existsSync(gitignore)) fs.writeFileSync(gitignore, '*\n');
+    // Write to a temporary file first, so an interrupted write does not corrupt the journal
+    const tempFile = `${this.file}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tempFile, this.file);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Session } from 'myst-cli';
+import { UploadProgressBars } from './progress.js';
+
+vi.mock('myst-cli');
+
+function mockStream(isTTY: boolean) {
+  return {
+    isTTY,
+    write: vi.fn(),
+    moveCursor: vi.fn(),
+    clearScreenDown: vi.fn(),
+  } as unknown as NodeJS.WriteStream;
+}
+
+function loggedMessages(session: Session) {
+  return (session.log.info as ReturnType<typeof vi.fn>).mock.calls.map(([message]) => message);
+}
+
+describe('UploadProgressBars', () => {
+  it('logs progress in 25% steps when stdout is not a TTY', () => {
+    const session = new Session();
+    const stream = mockStream(false);
+    const bars = new UploadProgressBars(session, [{ name: 'paper.pdf', size: 1000 }], { stream });
+    [100, 250, 300, 500, 740, 750, 999].forEach((loaded) => bars.update('paper.pdf', loaded));
+    bars.complete('paper.pdf');
+    expect(loggedMessages(session)).toEqual([
+      '⬆️  paper.pdf: 25% of 1000 B',
+      '⬆️  paper.pdf: 50% of 1000 B',
+      '⬆️  paper.pdf: 75% of 1000 B',
+    ]);
+    expect(stream.write).not.toHaveBeenCalled();
+  });
+
+  it('logs progress in steps on a TTY with the logSteps option', () => {
+    const session = new Session();
+    const stream = mockStream(true);
+    const bars = new UploadProgressBars(session, [{ name: 'data.csv', size: 2048 }], {
+      stream,
+      logSteps: true,
+    });
+    bars.update('data.csv', 1024);
+    bars.complete('data.csv', 'uploaded data.csv');
+    bars.stop();
+    expect(loggedMessages(session)).toEqual([
+      '⬆️  data.csv: 50% of 2.0 KB',
+      'uploaded data.csv',
+      '📦 Uploaded 2.0 KB of 2.0 KB',
+    ]);
+    expect(stream.write).not.toHaveBeenCalled();
+    expect(stream.moveCursor).not.toHaveBeenCalled();
+  });
+
+  it('renders progress bars on a TTY', () => {
+    const session = new Session();
+    const stream = mockStream(true);
+    const bars = new UploadProgressBars(session, [{ name: 'paper.pdf', size: 1000 }], { stream });
+    bars.update('paper.pdf', 500);
+    expect(stream.write).toHaveBeenCalledTimes(1);
+    expect(session.log.info).not.toHaveBeenCalled();
+    bars.stop();
+    expect(stream.moveCursor).toHaveBeenCalledWith(0, -2);
+    expect(loggedMessages(session)).toEqual(['📦 Uploaded 500 B of 1000 B']);
+  });
+});
@@ -0,0 +1,136 @@
+import type { ISession } from 'myst-cli';
+import { formatBytes } from './files.js';
+
+const BAR_WIDTH = 24;
+const RENDER_INTERVAL = 100;
+/** Percent step between progress logs when stdout is not a TTY */
+const LOG_STEP = 25;
+
+type FileProgress = {
+  size: number;
+  loaded: number;
+  done: boolean;
+  /** Last percent step that was logged, when stdout is not a TTY */
+  logged: number;
+};
+
+function progressBar(loaded: number, total: number): string {
+  const ratio = total ? Math.min(1, loaded / total) : 1;
+  const filled = Math.round(ratio * BAR_WIDTH);
+  const percent = `${Math.floor(ratio * 100)}%`.padStart(4);
+  return `${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)} ${percent}`;
+}
+
+/**
+ * Progress bars for uploading files, with a bar for each file being uploaded and overall progress
+ *
+ * When stdout is not a TTY, or with the `logSteps` option, progress is logged in steps instead.
+ */
+export class UploadProgressBars {
+  private session: ISession;
+  private stream: NodeJS.WriteStream;
+  private files = new Map<string, FileProgress>();
+  /** Log progress in steps even when stdout is a TTY */
+  private logSteps: boolean;
+  private renderedLines = 0;
+  private lastRender = 0;
+
+  constructor(
+    session: ISession,
+    files: { name: string; size: number }[],
+    opts: { stream?: NodeJS.WriteStream; logSteps?: boolean } = {},
+  ) {
+    this.session = session;
+    this.stream = opts.stream ?? process.stdout;
+    this.logSteps = !!opts.logSteps;
+    files.forEach(({ name, size }) => {
+      this.files.set(name, { size, loaded: 0, done: false, logged: 0 });
+    });
+  }
+
+  private get tty() {
+    return !this.logSteps && !!this.stream.isTTY;
+  }
+
+  /**
+   * Update the bytes uploaded for a file
+   */
+  update(name: string, loaded: number) {
+    const file = this.files.get(name);
+    if (!file) return;
+    file.loaded = loaded;
+    if (this.tty) {
+      if (Date.now() - this.lastRender < RENDER_INTERVAL) return;
+      this.render();
+      return;
+    }
+    const percent = file.size ? Math.floor((100 * loaded) / file.size) : 100;
+    const step = Math.floor(percent / LOG_STEP) * LOG_STEP;
+    if (step > file.logged && step < 100) {
+      file.logged = step;
+      this.session.log.info(`⬆️  ${name}: ${step}% of ${formatBytes(file.size)}`);
+    }
+  }
+
+  /**
+   * Mark a file as uploaded and log a message above the progress bars
+   */
+  complete(name: string, message?: string) {
+    const file = this.files.get(name);
+    if (file) {
+      file.loaded = file.size;
+      file.done = true;
+    }
+    if (message) this.log(message);
+    else if (this.tty) this.render();
+  }
+
+  log(message: string) {
+    this.clear();
+    this.session.log.info(message);
+    if (this.tty) this.render();
+  }
+
+  /**
+   * Remove the progress bars, leaving a final overall progress line
+   */
+  stop() {
+    this.clear();
+    const { loaded, total } = this.overall();
+    this.session.log.info(`📦 Uploaded ${formatBytes(loaded)} of ${formatBytes(total)}`);
+  }
+
+  private overall() {
+    let loaded = 0;
+    let total = 0;
+    this.files.forEach((file) => {
+      loaded += file.loaded;
+      total += file.size;
+    });
+    return { loaded, total };
+  }
+
+  private clear() {
+    if (!this.tty || !this.renderedLines) return;
+    this.stream.moveCursor(0, -this.renderedLines);
+    this.stream.clearScreenDown();
+    this.renderedLines = 0;
+  }
+
+  private render() {
+    this.clear();
+    const lines: string[] = [];
+    const width = Math.max(...[...this.files.keys()].map((name) => name.length));
+    this.files.forEach((file, name) => {
+      if (file.done || !file.loaded) return;
+      lines.push(`  ${name.padEnd(width)} ${progressBar(file.loaded, file.size)}`);
+    });
+    const { loaded, total } = this.overall();
+    lines.push(
+      `  ${'Total'.padEnd(width)} ${progressBar(loaded, total)} ${formatBytes(loaded)} / ${formatBytes(total)}`,
+    );
+    this.stream.write(`${lines.join('\n')}\n`);
+    this.renderedLines = lines.length;
+    this.lastRender = Date.now();
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Session } from 'myst-cli';
+import type { Deposition } from '../index.js';
+import type { LocalFile } from './files.js';
+import { verifyDepositFiles } from './publish.js';
+
+vi.mock('myst-cli');
+
+const deposition = {
+  id: 1,
+  files: [
+    { id: 'a', filename: 'poster.pdf', filesize: 3, checksum: 'abc' },
+    { id: 'b', filename: 'data.zip', filesize: 10, checksum: 'def' },
+  ],
+} as Deposition;
+
+function localFile(name: string, size: number, checksum: string): LocalFile {
+  return { path: `/project/${name}`, name, size, checksum };
+}
+
+describe('verifyDepositFiles', () => {
+  it('accepts local files that match the deposit', () => {
+    const session = new Session();
+    verifyDepositFiles(session, deposition, [
+      localFile('poster.pdf', 3, 'abc'),
+      localFile('data.zip', 10, 'def'),
+    ]);
+    expect(session.log.info).toHaveBeenCalledWith('🔒 2 files match the local files in deposit 1');
+    expect(session.log.warn).not.toHaveBeenCalled();
+  });
+  it('warns about deposit files that are not found locally', () => {
+    const session = new Session();
+    verifyDepositFiles(session, deposition, [localFile('poster.pdf', 3, 'abc')]);
+    expect(session.log.warn).toHaveBeenCalledWith(
+      '⚠️  data.zip is in the deposit but not found locally',
+    );
+  });
+  it('throws if local files differ from the deposit', () => {
+    expect(() =>
+      verifyDepositFiles(new Session(), deposition, [
+        localFile('poster.pdf', 3, 'xyz'),
+        localFile('slides.pdf', 5, 'ghi'),
+      ]),
+    ).toThrow('2 local files differ from deposit 1, run zenodo deposit first');
+  });
+});
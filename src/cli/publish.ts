@@ -0,0 +1,158 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Command, Option } from 'commander';
+import inquirer from 'inquirer';
+import type { ISession } from 'myst-cli';
+import { loadConfig, Session } from 'myst-cli';
+import { plural } from 'myst-common';
+import { clirun } from 'myst-cli-utils';
+import type { Deposition } from '../index.js';
+import { validateDepositionMetadata, ZenodoClient } from '../index.js';
+import { logDepositPlan, updatePublishedDoi } from './deposit.js';
+import type { LocalFile } from './files.js';
+import { logFileSyncPlan, planFileSync, resolveFilesToUpload } from './files.js';
+import { collect, getZenodoId, logValidation, logZenodoErrors } from './utils.js';
+import { loadLocalFilesAndFolders } from './zip.js';
+
+type PublishOptions = {
+  include?: string[];
+  exclude?: string[];
+  zip?: string[];
+  yes?: boolean;
+  sandbox?: boolean;
+};
+
+/**
+ * Resolve the config file from a project folder or config file path
+ */
+function resolveConfigFile(projectPath: string): string {
+  const resolved = path.resolve(projectPath);
+  const configFile =
+    fs.existsSync(resolved) && fs.lstatSync(resolved).isDirectory()
+      ? path.join(resolved, 'myst.yml')
+      : resolved;
+  if (!fs.existsSync(configFile)) throw new Error(`No myst.yml found at ${projectPath}`);
+  return configFile;
+}
+
+/**
+ * Check that the files of a deposition match the local files, throwing if any differ
+ *
+ * Files in the deposition that are not found locally are kept, with a warning.
+ */
+export function verifyDepositFiles(
+  session: ISession,
+  deposition: Deposition,
+  localFiles: LocalFile[],
+) {
+  const plan = planFileSync(localFiles, deposition.files ?? []);
+  if (plan.upload.length) {
+    logFileSyncPlan(session, plan);
+    throw new Error(
+      `${plural('%s local file(s) differ', plan.upload)} from deposit ${deposition.id}, run zenodo deposit first`,
+    );
+  }
+  plan.keep.forEach(({ filename }) => {
+    session.log.warn(`⚠️  ${filename} is in the deposit but not found locally`);
+  });
+  session.log.info(
+    `🔒 ${plural('%s file(s)', plan.unchanged)} match the local files in deposit ${deposition.id}`,
+  );
+}
+
+async function publish(session: Session, projectPath: string | undefined, opts: PublishOptions) {
+  const configFile = resolveConfigFile(projectPath ?? '.');
+  const zenodoDepositId = getZenodoId(configFile);
+  if (!zenodoDepositId) {
+    throw new Error(`No zenodo deposit found in ${configFile}, run zenodo deposit first`);
+  }
+  const config = await loadConfig(session, path.dirname(configFile));
+  const client = new ZenodoClient(process.env.ZENODO_TOKEN, opts.sandbox);
+  const deposition = await client.getDeposition(zenodoDepositId);
+  session.log.debug(JSON.stringify(deposition, null, 2));
+  if (deposition.submitted) {
+    throw new Error(`Deposit ${zenodoDepositId} is already published: ${deposition.links.html}`);
+  }
+  const { metadata } = deposition;
+  const validation = validateDepositionMetadata(metadata);
+  logDepositPlan(session, [
+    {
+      title: metadata.title,
+      configFile,
+      depositId: zenodoDepositId,
+      metadata,
+      validation,
+      files: (deposition.files ?? []).map(({ filename, filesize }) => ({
+        path: filename,
+        name: filename,
+        size: filesize,
+      })),
+    },
+  ]);
+  logValidation(session, metadata.title, validation);
+  if (!validation.valid) {
+    throw new Error(`Metadata for deposit ${zenodoDepositId} is invalid, fix the errors above`);
+  }
+
+  if (!deposition.files?.length) {
+    throw new Error(`Deposit ${zenodoDepositId} has no files, run zenodo deposit first`);
+  }
+  const { include, exclude, zip } = opts;
+  const localFiles = await loadLocalFilesAndFolders(
+    resolveFilesToUpload(configFile, config?.project, { include, exclude, zip }),
+  );
+  verifyDepositFiles(session, deposition, localFiles);
+
+  if (!opts.yes) {
+    const { confirm } = await inquirer.prompt([
+      {
+        name: 'confirm',
+        type: 'confirm',
+        message: `Publish deposit ${zenodoDepositId}? Published files cannot be changed.`,
+        default: false,
+      },
+    ]);
+    if (!confirm) {
+      session.log.info('Deposit was not published');
+      return;
+    }
+  }
+  const publishedData = await client.publishDeposition(zenodoDepositId);
+  session.log.debug(JSON.stringify(publishedData, null, 2));
+  updatePublishedDoi(session, configFile, config?.project?.doi, publishedData);
+  session.log.info(`🚀 Published deposit ${zenodoDepositId}: ${publishedData.links.html}`);
+}
+
+function makePublishCLI(program: Command) {
+  const command = new Command('publish')
+    .description('Publish a Zenodo deposit after checking its metadata and files')
+    .argument('[path]', 'Project folder or myst.yml of the deposit, defaults to the current folder')
+    .addOption(
+      new Option('--include <glob>', 'Files of the deposit, relative to the project (repeatable)')
+        .argParser(collect)
+        .default([]),
+    )
+    .addOption(
+      new Option('--exclude <glob>', 'Files to leave out, relative to the project (repeatable)')
+        .argParser(collect)
+        .default([]),
+    )
+    .addOption(
+      new Option('--zip <folder>', 'Folder uploaded as a zip file (repeatable)')
+        .argParser(collect)
+        .default([]),
+    )
+    .addOption(new Option('-y, --yes', 'Publish without asking for confirmation'))
+    .addOption(new Option('--sandbox', 'Use the sandbox for testing purposes'))
+    .action(
+      clirun(logZenodoErrors(publish), {
+        program,
+        getSession: (logger) => new Session({ logger }),
+      }),
+    );
+  return command;
+}
+
+export function addPublishCLI(program: Command) {
+  program.addCommand(makePublishCLI(program));
+}
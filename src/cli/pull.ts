@@ -0,0 +1,127 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Command, Option } from 'commander';
+import { dump as yamlDump } from 'js-yaml';
+import { Session } from 'myst-cli';
+import { clirun } from 'myst-cli-utils';
+import type {
+  DepositFrontmatter,
+  Deposition,
+  DepositionFile,
+  RecordFile,
+  ZenodoRecord,
+} from '../index.js';
+import { depositionToFrontmatter, ZenodoApiError, ZenodoClient } from '../index.js';
+import { formatBytes } from './files.js';
+import { logZenodoErrors, parseZenodoId } from './utils.js';
+
+type PullOptions = {
+  output?: string;
+  download?: boolean;
+  force?: boolean;
+  sandbox?: boolean;
+};
+
+/**
+ * Get a deposition of the current user, otherwise the published record
+ */
+async function getDepositionOrRecord(
+  client: ZenodoClient,
+  zenodoId: number,
+): Promise<{ deposit: Deposition | ZenodoRecord; owned: boolean }> {
+  try {
+    return { deposit: await client.getDeposition(zenodoId), owned: true };
+  } catch (error) {
+    if (error instanceof ZenodoApiError && (error.status === 403 || error.status === 404)) {
+      return { deposit: await client.getRecord(zenodoId), owned: false };
+    }
+    throw error;
+  }
+}
+
+function depositFiles(deposit: Deposition | ZenodoRecord) {
+  const files: (DepositionFile | RecordFile)[] = deposit.files ?? [];
+  return files.map((file) =>
+    'filename' in file
+      ? { name: file.filename, size: file.filesize, url: file.links.download }
+      : { name: file.key, size: file.size, url: file.links.self },
+  );
+}
+
+/**
+ * Project config with the abstract written as `abstract` rather than `parts`
+ */
+function projectConfig(frontmatter: DepositFrontmatter) {
+  const { title, parts, ...rest } = frontmatter;
+  const abstract = parts?.abstract?.join('\n\n');
+  return { title, ...(abstract ? { abstract } : {}), ...rest };
+}
+
+async function pull(session: Session, id: string, opts: PullOptions) {
+  const zenodoId = parseZenodoId(id);
+  if (!zenodoId) {
+    throw new Error(`Could not find a Zenodo ID in "${id}", use an ID, Zenodo DOI or URL`);
+  }
+  const output = path.resolve(opts.output ?? '.');
+  const configFile = path.join(output, 'myst.yml');
+  if (fs.existsSync(configFile) && !opts.force) {
+    throw new Error(`${configFile} already exists, use --force to overwrite it`);
+  }
+  const client = new ZenodoClient(process.env.ZENODO_TOKEN, opts.sandbox);
+  const { deposit, owned } = await getDepositionOrRecord(client, zenodoId);
+  session.log.debug(JSON.stringify(deposit, null, 2));
+  if (!owned) {
+    session.log.warn(
+      `⚠️  Record ${zenodoId} is not one of your deposits, identifiers.zenodo is left out so a new deposit is created`,
+    );
+  }
+  const frontmatter = depositionToFrontmatter(deposit, {
+    sandbox: opts.sandbox,
+    linkDeposit: owned,
+  });
+  fs.mkdirSync(output, { recursive: true });
+
+  if (opts.download) {
+    const files = depositFiles(deposit);
+    for (const file of files) {
+      const filePath = path.join(output, path.basename(file.name));
+      if (fs.existsSync(filePath) && !opts.force) {
+        session.log.warn(`⚠️  Skipping ${file.name}, it already exists`);
+        continue;
+      }
+      session.log.info(`⬇️  Downloading ${file.name} (${formatBytes(file.size)})`);
+      await client.downloadFile(file.url, filePath);
+    }
+    if (files.length) {
+      frontmatter.downloads = files.map(({ name }) => ({ url: path.basename(name) }));
+    }
+  }
+
+  fs.writeFileSync(configFile, yamlDump({ version: 1, project: projectConfig(frontmatter) }));
+  session.log.info(`📝 Wrote "${frontmatter.title}" to ${path.relative('.', configFile)}`);
+  const type =
+    'upload_type' in deposit.metadata
+      ? deposit.metadata.upload_type
+      : deposit.metadata.resource_type?.type;
+  if (type) {
+    session.log.info(`ℹ️  The deposit type is "${type}", use --type ${type} to deposit updates`);
+  }
+}
+
+function makePullCLI(program: Command) {
+  const command = new Command('pull')
+    .description('Create a myst.yml from an existing Zenodo deposit or record')
+    .argument('<id>', 'Zenodo ID, DOI or URL')
+    .addOption(new Option('--output <folder>', 'Folder to write the myst.yml to').default('.'))
+    .addOption(new Option('--download', 'Download the files of the deposit'))
+    .addOption(new Option('--force', 'Overwrite an existing myst.yml and files'))
+    .addOption(new Option('--sandbox', 'Use the sandbox for testing purposes'))
+    .action(
+      clirun(logZenodoErrors(pull), { program, getSession: (logger) => new Session({ logger }) }),
+    );
+  return command;
+}
+
+export function addPullCLI(program: Command) {
+  program.addCommand(makePullCLI(program));
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Session } from 'myst-cli';
+import type { Deposition, DepositionMetadata, ZenodoClient } from '../index.js';
+import { republishDeposition } from './update.js';
+
+vi.mock('myst-cli');
+
+const session = new Session();
+
+const metadata = { title: 'Fixed title' } as DepositionMetadata;
+
+function deposition(id: number): Deposition {
+  return { id, links: { html: `https://zenodo.org/deposit/${id}` } } as Deposition;
+}
+
+function mockClient(overrides: Partial<Record<keyof ZenodoClient, unknown>> = {}) {
+  return {
+    editDeposition: vi.fn().mockResolvedValue(deposition(1)),
+    updateDeposition: vi.fn().mockResolvedValue(deposition(1)),
+    publishDeposition: vi.fn().mockResolvedValue(deposition(1)),
+    discardDeposition: vi.fn().mockResolvedValue(deposition(1)),
+    ...overrides,
+  };
+}
+
+describe('republishDeposition', () => {
+  it('unlocks, updates and publishes the deposition', async () => {
+    const client = mockClient();
+    await republishDeposition(session, client as unknown as ZenodoClient, 1, metadata);
+    expect(client.editDeposition).toHaveBeenCalledWith(1);
+    expect(client.updateDeposition).toHaveBeenCalledWith(1, metadata);
+    expect(client.publishDeposition).toHaveBeenCalledWith(1);
+    expect(client.discardDeposition).not.toHaveBeenCalled();
+  });
+  it('discards the changes if the update fails', async () => {
+    const client = mockClient({ updateDeposition: vi.fn().mockRejectedValue(new Error('bad')) });
+    await expect(
+      republishDeposition(session, client as unknown as ZenodoClient, 1, metadata),
+    ).rejects.toThrow('bad');
+    expect(client.publishDeposition).not.toHaveBeenCalled();
+    expect(client.discardDeposition).toHaveBeenCalledWith(1);
+  });
+  it('discards the changes if the publish fails', async () => {
+    const client = mockClient({ publishDeposition: vi.fn().mockRejectedValue(new Error('bad')) });
+    await expect(
+      republishDeposition(session, client as unknown as ZenodoClient, 1, metadata),
+    ).rejects.toThrow('bad');
+    expect(client.discardDeposition).toHaveBeenCalledWith(1);
+  });
+  it('explains how to recover if the discard fails', async () => {
+    const client = mockClient({
+      publishDeposition: vi.fn().mockRejectedValue(new Error('bad')),
+      discardDeposition: vi.fn().mockRejectedValue(new Error('offline')),
+    });
+    await expect(
+      republishDeposition(session, client as unknown as ZenodoClient, 1, metadata),
+    ).rejects.toThrow('bad');
+    expect(session.log.error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'still open for editing, discard the changes at https://zenodo.org/deposit/1',
+      ),
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { Command, Option } from 'commander';
+import type {
+  AccessRight,
+  Deposition,
+  DepositionMetadata,
+  ReferenceFormat,
+  UploadType,
+} from '../index.js';
+import {
+  ACCESS_RIGHTS,
+  issueDataFromArticles,
+  REFERENCE_FORMATS,
+  UPLOAD_TYPES,
+  validateDepositionMetadata,
+  ZenodoClient,
+} from '../index.js';
+import type { ISession } from 'myst-cli';
+import { Session } from 'myst-cli';
+import { plural } from 'myst-common';
+import { clirun } from 'myst-cli-utils';
+import {
+  depositionMetadataFromArticle,
+  keepExistingAccess,
+  keepReservedDoi,
+  loadDepositArticles,
+} from './deposit.js';
+import { getZenodoId, logValidation, logZenodoErrors } from './utils.js';
+
+type UpdateOptions = {
+  type?: UploadType;
+  file?: string;
+  sandbox?: boolean;
+  community?: string;
+  references?: ReferenceFormat;
+  access?: AccessRight;
+  embargoDate?: string;
+  accessConditions?: string;
+};
+
+/**
+ * Unlock a published deposition, replace its metadata and publish it again
+ *
+ * If the update or the publish fails, the changes are discarded so the record is not
+ * left locked in an editing session.
+ */
+export async function republishDeposition(
+  session: ISession,
+  client: ZenodoClient,
+  depositionId: number,
+  data: DepositionMetadata,
+): Promise<Deposition> {
+  const editData = await client.editDeposition(depositionId);
+  try {
+    const updatedData = await client.updateDeposition(depositionId, data);
+    session.log.debug(JSON.stringify(updatedData, null, 2));
+    const publishedData = await client.publishDeposition(depositionId);
+    session.log.debug(JSON.stringify(publishedData, null, 2));
+    return publishedData;
+  } catch (error) {
+    try {
+      await client.discardDeposition(depositionId);
+      session.log.warn(`↩️  Discarded the changes to deposit ${depositionId}, it is unchanged`);
+    } catch (discardError) {
+      session.log.debug(String(discardError));
+      session.log.error(
+        `🚨 Deposit ${depositionId} is still open for editing, discard the changes at ${editData.links.html}`,
+      );
+    }
+    throw error;
+  }
+}
+
+async function update(session: Session, opts: UpdateOptions) {
+  const { sandbox, community, references, access, embargoDate, accessConditions } = opts;
+  const client = new ZenodoClient(process.env.ZENODO_TOKEN, sandbox);
+  const depositArticles = await loadDepositArticles(session, opts);
+  session.log.info(`🔍 Found ${plural('%s article(s)', depositArticles)} to update`);
+  const issueData = issueDataFromArticles(depositArticles);
+
+  for (let index = 0; index < depositArticles.length; index++) {
+    const { configFile, frontmatter } = depositArticles[index];
+    session.log.info(`\nProcessing: "${frontmatter.title}"`);
+    const zenodoDepositId = getZenodoId(configFile);
+    if (!zenodoDepositId) {
+      throw new Error(
+        `No zenodo deposit found for "${frontmatter.title}", run zenodo deposit first`,
+      );
+    }
+    const existingData = await client.getDeposition(zenodoDepositId);
+    const data = depositionMetadataFromArticle(session, depositArticles[index], issueData, {
+      depositType: opts.type ?? existingData.metadata.upload_type,
+      publicationType: existingData.metadata.publication_type,
+      imageType: existingData.metadata.image_type,
+      community,
+      referenceFormat: references,
+      access,
+      embargoDate,
+      accessConditions,
+    });
+    // Published DOIs cannot change, other existing values are kept if missing locally
+    data.doi = existingData.metadata.doi ?? data.doi;
+    keepReservedDoi(data, existingData);
+    data.publication_date ??= existingData.metadata.publication_date;
+    data.communities ??= existingData.metadata.communities;
+    keepExistingAccess(data, existingData);
+    session.log.debug(JSON.stringify(data, null, 2));
+    const validation = validateDepositionMetadata(data);
+    logValidation(session, frontmatter.title, validation);
+    if (!validation.valid) {
+      throw new Error(`Metadata for deposit ${zenodoDepositId} is invalid, fix the errors above`);
+    }
+    if (!existingData.submitted) {
+      const updatedData = await client.updateDeposition(zenodoDepositId, data);
+      session.log.debug(JSON.stringify(updatedData, null, 2));
+      session.log.info(
+        `✍️ Updated unpublished deposit ${zenodoDepositId}: ${updatedData.links.html}`,
+      );
+      continue;
+    }
+    const publishedData = await republishDeposition(session, client, zenodoDepositId, data);
+    session.log.info(`🚀 Republished deposit ${zenodoDepositId}: ${publishedData.links.html}`);
+  }
+}
+
+function makeUpdateCLI(program: Command) {
+  const command = new Command('update')
+    .description('Update the metadata of Zenodo deposits from local MyST content')
+    .addOption(new Option('--file <value>', 'File to deposit'))
+    .addOption(
+      new Option('--type <value>', 'Deposit type, defaults to the existing deposit type').choices(
+        UPLOAD_TYPES,
+      ),
+    )
+    .addOption(new Option('--community <value>', 'Zenodo community identifier'))
+    .addOption(
+      new Option('--references <format>', 'Add references as DOIs or full formatted references')
+        .choices(REFERENCE_FORMATS)
+        .default('full'),
+    )
+    .addOption(new Option('--access <value>', 'Access right of the deposit').choices(ACCESS_RIGHTS))
+    .addOption(
+      new Option(
+        '--embargo-date <date>',
+        'Date the embargo ends (YYYY-MM-DD), for embargoed access',
+      ),
+    )
+    .addOption(
+      new Option(
+        '--access-conditions <value>',
+        'Conditions to access files, for restricted access',
+      ),
+    )
+    .addOption(new Option('--sandbox', 'Use the sandbox for testing purposes'))
+    .action(
+      clirun(logZenodoErrors(update), { program, getSession: (logger) => new Session({ logger }) }),
+    );
+  return command;
+}
+
+export function addUpdateCLI(program: Command) {
+  program.addCommand(makeUpdateCLI(program));
+}
@@ -0,0 +1,159 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+  addZenodoToConfig,
+  getZenodoConfig,
+  parseZenodoId,
+  stderrLogger,
+  updateDoiInConfig,
+  updateZenodoInConfig,
+} from './utils.js';
+
+describe('identifiers in config', () => {
+  let root: string;
+  let configFile: string;
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-config-'));
+    configFile = path.join(root, 'myst.yml');
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+  function writeConfig(lines: string[]) {
+    fs.writeFileSync(configFile, lines.join('\n'));
+  }
+  function readConfig() {
+    return fs.readFileSync(configFile).toString().split('\n');
+  }
+  it('replaces only the zenodo identifier of the project', () => {
+    writeConfig([
+      'version: 1',
+      'project:',
+      '  options:',
+      '    zenodo: { access_right: open }',
+      '  identifiers:',
+      '    zenodo: https://zenodo.org/deposit/1',
+      'site:',
+      '  zenodo: https://zenodo.org/deposit/1',
+    ]);
+    updateZenodoInConfig(configFile, 2, true);
+    expect(readConfig()).toEqual([
+      'version: 1',
+      'project:',
+      '  options:',
+      '    zenodo: { access_right: open }',
+      '  identifiers:',
+      '    zenodo: https://sandbox.zenodo.org/deposit/2',
+      'site:',
+      '  zenodo: https://zenodo.org/deposit/1',
+    ]);
+  });
+  it('adds the zenodo identifier if there is none in the project', () => {
+    writeConfig([
+      'version: 1',
+      'project:',
+      '  title: Poster',
+      'site:',
+      '  identifiers:',
+      '    doi: 10.1000/abc',
+    ]);
+    updateZenodoInConfig(configFile, 2);
+    expect(readConfig()).toEqual([
+      'version: 1',
+      'project:',
+      '  identifiers:',
+      '    zenodo: https://zenodo.org/deposit/2',
+      '  title: Poster',
+      'site:',
+      '  identifiers:',
+      '    doi: 10.1000/abc',
+    ]);
+  });
+  it('replaces only the DOI of the project', () => {
+    writeConfig(['site:', '  doi: 10.1000/site', 'project:', '  doi: 10.1000/old']);
+    updateDoiInConfig(configFile, '10.5281/zenodo.2');
+    expect(readConfig()).toEqual([
+      'site:',
+      '  doi: 10.1000/site',
+      'project:',
+      '  doi: 10.5281/zenodo.2',
+    ]);
+  });
+  it('adds the zenodo identifier to existing project identifiers', () => {
+    writeConfig(['project:', '  identifiers:', '    isbn: 978-3-16-148410-0']);
+    addZenodoToConfig(configFile, 3);
+    expect(readConfig()).toEqual([
+      'project:',
+      '  identifiers:',
+      '    zenodo: https://zenodo.org/deposit/3',
+      '    isbn: 978-3-16-148410-0',
+    ]);
+  });
+});
+
+describe('getZenodoConfig', () => {
+  let root: string;
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-config-'));
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+  it('reads the zenodo_deposit section of the project options', () => {
+    const configFile = path.join(root, 'myst.yml');
+    fs.writeFileSync(
+      configFile,
+      [
+        'version: 1',
+        'project:',
+        '  options:',
+        '    zenodo_deposit:',
+        '      access_right: embargoed',
+        '      embargo_date: 2030-01-01',
+      ].join('\n'),
+    );
+    expect(getZenodoConfig(configFile)).toEqual({
+      access_right: 'embargoed',
+      embargo_date: '2030-01-01',
+    });
+  });
+});
+
+describe('parseZenodoId', () => {
+  it('parses IDs, DOIs and URLs', () => {
+    expect(parseZenodoId(' 1234 ')).toBe(1234);
+    expect(parseZenodoId('10.5281/zenodo.1234')).toBe(1234);
+    expect(parseZenodoId('https://doi.org/10.5072/zenodo.1234')).toBe(1234);
+    expect(parseZenodoId('https://zenodo.org/records/1234')).toBe(1234);
+    expect(parseZenodoId('https://sandbox.zenodo.org/deposit/1234')).toBe(1234);
+    expect(parseZenodoId('https://zenodo.org/uploads/1234')).toBe(1234);
+  });
+  it('returns undefined for other identifiers', () => {
+    expect(parseZenodoId('10.1000/abc')).toBeUndefined();
+    expect(parseZenodoId('https://example.com/records/1234')).toBeUndefined();
+  });
+});
+
+describe('stderrLogger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  it('keeps stdout free for JSON output', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const logger = stderrLogger();
+    logger.debug('hidden');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+    expect(log).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(3);
+  });
+  it('logs debug messages with the debug option', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    stderrLogger(true).debug('shown');
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
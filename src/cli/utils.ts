@@ -1,4 +1,35 @@
 import fs from 'node:fs';
+import chalk from 'chalk';
+import { InvalidArgumentError } from 'commander';
+import { load as yamlLoad } from 'js-yaml';
+import type { ISession } from 'myst-cli';
+import type { Logger } from 'myst-cli-utils';
+import type { AccessRight, RelatedIdentifier, ValidationResult } from '../index.js';
+import { ZenodoApiError } from '../index.js';
+import type { FileSelection } from './files.js';
+
+/**
+ * Index of the line of a key nested under the given parent keys in config file lines
+ *
+ * Each level is expected to be indented by two spaces, -1 if the key is not found.
+ */
+function findConfigKey(lines: string[], keys: string[]): number {
+  let index = -1;
+  let end = lines.length;
+  for (const [depth, key] of keys.entries()) {
+    const pattern = new RegExp(`^ {${depth * 2}}${key}:(\\s|$)`);
+    const keyIndex = lines.findIndex((line, i) => i > index && i < end && pattern.test(line));
+    if (keyIndex === -1) return -1;
+    index = keyIndex;
+    // The block of the key ends at the next line that is not indented further
+    const blockEnd = lines.findIndex(
+      (line, i) =>
+        i > index && line.trim() && !line.trim().startsWith('#') && line.search(/\S/) <= depth * 2,
+    );
+    if (blockEnd !== -1 && blockEnd < end) end = blockEnd;
+  }
+  return index;
+}
 
 /**
  * Add Zenodo ID to project identifiers in config file
@@ -13,7 +44,7 @@ export function addZenodoToConfig(
   if (!configFile) return;
   const file = fs.readFileSync(configFile).toString();
   const lines = file.split('\n');
-  const identifiersIndex = lines.findIndex((line) => line.trim() === 'identifiers:');
+  const identifiersIndex = findConfigKey(lines, ['project', 'identifiers']);
   let newLines: string[];
   if (identifiersIndex !== -1) {
     newLines = [
@@ -22,7 +53,7 @@ export function addZenodoToConfig(
       ...lines.slice(identifiersIndex + 1),
     ];
   } else {
-    const projectIndex = lines.findIndex((line) => line.trim() === 'project:');
+    const projectIndex = findConfigKey(lines, ['project']);
     newLines = [
       ...lines.slice(0, projectIndex + 1),
       `  identifiers:`,
@@ -33,6 +64,29 @@ export function addZenodoToConfig(
   fs.writeFileSync(configFile, newLines.join('\n'));
 }
 
+/**
+ * Replace Zenodo ID in project identifiers in config file
+ *
+ * If there is no zenodo identifier present, it is added
+ */
+export function updateZenodoInConfig(
+  configFile: string | undefined,
+  zenodoId: string | number,
+  sandbox?: boolean,
+) {
+  if (!configFile) return;
+  const file = fs.readFileSync(configFile).toString();
+  const lines = file.split('\n');
+  const zenodoIndex = findConfigKey(lines, ['project', 'identifiers', 'zenodo']);
+  if (zenodoIndex === -1) {
+    addZenodoToConfig(configFile, zenodoId, sandbox);
+    return;
+  }
+  lines[zenodoIndex] =
+    `    zenodo: https://${sandbox ? 'sandbox.' : ''}zenodo.org/deposit/${zenodoId}`;
+  fs.writeFileSync(configFile, lines.join('\n'));
+}
+
 /**
  * Add DOI to project in config file
  *
@@ -42,7 +96,7 @@ export function addDoiToConfig(configFile: string | undefined, doi: string) {
   if (!configFile) return;
   const file = fs.readFileSync(configFile).toString();
   const lines = file.split('\n');
-  const projectIndex = lines.findIndex((line) => line.trim() === 'project:');
+  const projectIndex = findConfigKey(lines, ['project']);
   const newLines = [
     ...lines.slice(0, projectIndex + 1),
     `  doi: ${doi}`,
@@ -50,3 +104,163 @@ export function addDoiToConfig(configFile: string | undefined, doi: string) {
   ];
   fs.writeFileSync(configFile, newLines.join('\n'));
 }
+
+/**
+ * Replace DOI of project in config file
+ *
+ * If there is no DOI present, it is added
+ */
+export function updateDoiInConfig(configFile: string | undefined, doi: string) {
+  if (!configFile) return;
+  const file = fs.readFileSync(configFile).toString();
+  const lines = file.split('\n');
+  const doiIndex = findConfigKey(lines, ['project', 'doi']);
+  if (doiIndex === -1) {
+    addDoiToConfig(configFile, doi);
+    return;
+  }
+  lines[doiIndex] = `  doi: ${doi}`;
+  fs.writeFileSync(configFile, lines.join('\n'));
+}
+
+export function getZenodoId(configFile: string | undefined): number | undefined {
+  // This shouldn't be needed in the future
+  if (!configFile) return undefined;
+  const data = yamlLoad(fs.readFileSync(configFile).toString()) as {
+    project: { identifiers?: { zenodo?: string } };
+  };
+  const url = data?.project?.identifiers?.zenodo;
+  if (!url) return undefined;
+  return Number.parseInt(String(url).split('/').slice(-1)[0], 10);
+}
+
+/**
+ * Deposit options from the `zenodo_deposit` section of the project options in a config file
+ *
+ * MyST reserves frontmatter keys such as `zenodo` in the options, so a distinct key is used.
+ */
+export type ZenodoConfig = {
+  access_right?: AccessRight;
+  embargo_date?: string;
+  access_conditions?: string;
+  related_identifiers?: RelatedIdentifier[];
+  files?: FileSelection;
+};
+
+export function getZenodoConfig(configFile: string | undefined): ZenodoConfig {
+  if (!configFile) return {};
+  const data = yamlLoad(fs.readFileSync(configFile).toString()) as {
+    project?: {
+      options?: {
+        zenodo_deposit?: Omit<ZenodoConfig, 'embargo_date'> & { embargo_date?: string | Date };
+      };
+    };
+  };
+  const { embargo_date, ...config } = data?.project?.options?.zenodo_deposit ?? {};
+  // Unquoted dates are loaded from yaml as Date objects
+  if (embargo_date instanceof Date) {
+    return { ...config, embargo_date: embargo_date.toISOString().slice(0, 10) };
+  }
+  return embargo_date ? { ...config, embargo_date } : config;
+}
+
+/**
+ * Parse a Zenodo ID from an ID, DOI or URL
+ *
+ * For example `1234`, `10.5281/zenodo.1234` or `https://zenodo.org/records/1234`
+ */
+export function parseZenodoId(value: string): number | undefined {
+  const id = value.trim();
+  if (id.match(/^\d+$/)) return Number.parseInt(id, 10);
+  const doiMatch = id.match(/10\.(?:5281|5072)\/zenodo\.(\d+)$/i);
+  if (doiMatch) return Number.parseInt(doiMatch[1], 10);
+  const urlMatch = id.match(/zenodo\.org\/(?:records?|deposit|uploads)\/(\d+)/);
+  if (urlMatch) return Number.parseInt(urlMatch[1], 10);
+  return undefined;
+}
+
+/**
+ * Wrap a CLI command to log field-level validation errors from Zenodo
+ *
+ * The error is re-thrown, so the command still fails with the error message.
+ */
+export function logZenodoErrors<S extends ISession, T extends any[]>(
+  func: (session: S, ...args: T) => Promise<void>,
+) {
+  return async (session: S, ...args: T) => {
+    try {
+      await func(session, ...args);
+    } catch (error) {
+      logZenodoError(session, error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Log the request and field-level validation errors of a Zenodo API error
+ */
+export function logZenodoError(session: ISession, error: unknown) {
+  if (!(error instanceof ZenodoApiError)) return;
+  if (error.method && error.url) session.log.debug(`${error.method} ${error.url}`);
+  if (error.errors.length) {
+    session.log.error('🚨 Zenodo rejected the following fields:');
+    error.errors.forEach(({ field, messages }) => {
+      session.log.error(`   ${chalk.bold(field || '(deposit)')}: ${messages.join(' ')}`);
+    });
+  }
+}
+
+/**
+ * Logger that writes every message to stderr, so stdout only carries machine-readable output
+ */
+export function stderrLogger(debug?: boolean): Logger {
+  return {
+    debug(...args) {
+      if (debug) console.error(chalk.dim(...args));
+    },
+    info(...args) {
+      console.error(chalk.reset(...args));
+    },
+    warn(...args) {
+      console.error(chalk.yellow(...args));
+    },
+    error(...args) {
+      console.error(chalk.red(...args));
+    },
+  };
+}
+
+/**
+ * Log validation errors and warnings of deposition metadata
+ */
+export function logValidation(
+  session: ISession,
+  title: string | undefined,
+  { errors, warnings }: ValidationResult,
+) {
+  warnings.forEach(({ field, message }) => {
+    session.log.warn(`⚠️  "${title}" ${chalk.bold(field)}: ${message}`);
+  });
+  errors.forEach(({ field, message }) => {
+    session.log.error(`🚨 "${title}" ${chalk.bold(field)}: ${message}`);
+  });
+}
+
+/**
+ * Collect the values of a repeatable CLI option into a list
+ */
+export function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse a CLI option value as a positive integer
+ */
+export function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
@@ -0,0 +1,95 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import AdmZip from 'adm-zip';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { md5File } from './files.js';
+import {
+  folderManifest,
+  folderManifestHtml,
+  hashFolderZip,
+  loadLocalFilesAndFolders,
+  withZippedFolders,
+  zipFolder,
+} from './zip.js';
+
+describe('zip', () => {
+  let root: string;
+  let folder: string;
+  function write(file: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(folder, file)), { recursive: true });
+    fs.writeFileSync(path.join(folder, file), content);
+  }
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-zip-'));
+    folder = path.join(root, 'data');
+    write('b.csv', 'b,c\n1,2\n');
+    write('a/x.csv', 'x\n1\n');
+    write('.hidden/secret.txt', 'secret');
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+  it('lists the files of a folder', () => {
+    expect(folderManifest(folder)).toEqual([
+      { path: 'a/x.csv', size: 4 },
+      { path: 'b.csv', size: 8 },
+    ]);
+  });
+  it('zips folders with sorted entries', async () => {
+    const zipFile = await zipFolder(folder, path.join(root, 'out'));
+    expect(path.basename(zipFile)).toBe('data.zip');
+    const entries = new AdmZip(zipFile).getEntries();
+    expect(entries.map(({ entryName }) => entryName)).toEqual(['a/x.csv', 'b.csv']);
+    expect(entries[1].getData().toString()).toBe('b,c\n1,2\n');
+  });
+  it('zips the same files with the same checksum', async () => {
+    const first = await md5File(await zipFolder(folder, path.join(root, 'first')));
+    fs.utimesSync(path.join(folder, 'b.csv'), new Date(2000, 0, 1), new Date(2000, 0, 1));
+    const second = await md5File(await zipFolder(folder, path.join(root, 'second')));
+    expect(second).toBe(first);
+    write('b.csv', 'b,c\n1,3\n');
+    expect(await md5File(await zipFolder(folder, path.join(root, 'third')))).not.toBe(first);
+  });
+  it('hashes the zip of a folder without writing it', async () => {
+    const zipFile = await zipFolder(folder, path.join(root, 'out'));
+    expect(await hashFolderZip(folder)).toEqual({
+      checksum: await md5File(zipFile),
+      size: fs.statSync(zipFile).size,
+    });
+  });
+  it('loads folders as zip files', async () => {
+    const file = path.join(root, 'poster.pdf');
+    fs.writeFileSync(file, 'pdf');
+    const [pdf, data] = await loadLocalFilesAndFolders([file, folder]);
+    expect(pdf).toMatchObject({ path: file, name: 'poster.pdf', size: 3 });
+    expect(data).toEqual({ path: folder, name: 'data.zip', ...(await hashFolderZip(folder)) });
+  });
+  it('replaces folders with zip files until the callback is done', async () => {
+    const file = path.join(root, 'poster.pdf');
+    fs.writeFileSync(file, 'pdf');
+    const files = await withZippedFolders([file, folder], async (zipped) => {
+      expect(fs.existsSync(zipped[1])).toBe(true);
+      return zipped;
+    });
+    expect(files[0]).toBe(file);
+    expect(path.basename(files[1])).toBe('data.zip');
+    expect(path.dirname(files[1])).not.toBe(root);
+    expect(fs.existsSync(path.dirname(files[1]))).toBe(false);
+  });
+  it('removes zip files when the callback fails', async () => {
+    let zipped: string[] = [];
+    await expect(
+      withZippedFolders([folder], async (files) => {
+        zipped = files;
+        throw new Error('Upload failed');
+      }),
+    ).rejects.toThrow('Upload failed');
+    expect(fs.existsSync(path.dirname(zipped[0]))).toBe(false);
+  });
+  it('lists zipped folders in html', () => {
+    expect(folderManifestHtml([folder, path.join(root, 'missing.pdf')])).toBe(
+      '<p>Contents of data.zip:</p><ul><li>a/x.csv (4 B)</li><li>b.csv (8 B)</li></ul>',
+    );
+  });
+});
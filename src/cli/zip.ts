@@ -0,0 +1,134 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { ZipFile } from 'yazl';
+import type { LocalFile } from './files.js';
+import {
+  depositFileName,
+  formatBytes,
+  isFolder,
+  listFolderFiles,
+  loadLocalFiles,
+} from './files.js';
+
+/** Modification time of every zip entry, so zips of the same files have the same checksum */
+const ZIP_ENTRY_TIME = new Date(1980, 0, 1);
+/** Regular file, readable by everyone */
+const ZIP_ENTRY_MODE = 0o100644;
+
+export type ManifestEntry = {
+  /** Path of the file in the zip */
+  path: string;
+  /** Size of the file in bytes */
+  size: number;
+};
+
+/**
+ * List the files of a folder that are added to its zip file
+ */
+export function folderManifest(folder: string): ManifestEntry[] {
+  return listFolderFiles(folder).map((file) => ({
+    path: file,
+    size: fs.statSync(path.join(folder, file)).size,
+  }));
+}
+
+/**
+ * Stream the zip of a folder, reading each file only as it is added
+ *
+ * Entries are sorted and have a fixed modification time and mode, so zipping the
+ * same files again gives the same checksum and unchanged folders are not re-uploaded.
+ */
+export function zipFolderStream(folder: string): Readable {
+  const files = listFolderFiles(folder);
+  if (!files.length) throw new Error(`Folder ${folder} has no files to zip`);
+  const zip = new ZipFile();
+  files.forEach((file) => {
+    zip.addFile(path.join(folder, file), file, { mtime: ZIP_ENTRY_TIME, mode: ZIP_ENTRY_MODE });
+  });
+  zip.end();
+  const output = zip.outputStream as Readable;
+  // Errors reading the files are emitted on the zip rather than its output
+  zip.on('error', (error: Error) => output.destroy(error));
+  return output;
+}
+
+/**
+ * Zip a folder to `<folder name>.zip` in the output folder
+ */
+export async function zipFolder(folder: string, outputFolder: string): Promise<string> {
+  const zipFile = path.join(outputFolder, depositFileName(folder));
+  fs.mkdirSync(outputFolder, { recursive: true });
+  await pipeline(zipFolderStream(folder), fs.createWriteStream(zipFile));
+  return zipFile;
+}
+
+/**
+ * MD5 checksum and size of the zip of a folder, without writing the zip
+ */
+export async function hashFolderZip(folder: string): Promise<{ checksum: string; size: number }> {
+  const hash = crypto.createHash('md5');
+  let size = 0;
+  for await (const chunk of zipFolderStream(folder)) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+  return { checksum: hash.digest('hex'), size };
+}
+
+/**
+ * Load local files for comparison with a deposit, folders are loaded as the zip files they are uploaded as
+ */
+export async function loadLocalFilesAndFolders(files: string[]): Promise<LocalFile[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      if (!isFolder(file)) return (await loadLocalFiles([file]))[0];
+      return { path: file, name: depositFileName(file), ...(await hashFolderZip(file)) };
+    }),
+  );
+}
+
+/**
+ * Replace folders in a list of files with zip files while running the callback
+ *
+ * The zip files are written to a new temporary folder, which is removed once the callback is done.
+ */
+export async function withZippedFolders<T>(
+  files: string[],
+  callback: (files: string[]) => Promise<T>,
+): Promise<T> {
+  if (!files.find(isFolder)) return callback(files);
+  const outputFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-'));
+  try {
+    const zippedFiles: string[] = [];
+    // Folders are zipped one at a time, they may be large
+    for (const file of files) {
+      zippedFiles.push(isFolder(file) ? await zipFolder(file, outputFolder) : file);
+    }
+    return await callback(zippedFiles);
+  } finally {
+    fs.rmSync(outputFolder, { recursive: true, force: true });
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * HTML list of the files in each zipped folder, to add to the deposit description
+ */
+export function folderManifestHtml(files: string[]): string {
+  return files
+    .filter(isFolder)
+    .map((folder) => {
+      const items = folderManifest(folder).map(
+        ({ path: file, size }) => `<li>${escapeHtml(file)} (${formatBytes(size)})</li>`,
+      );
+      return `<p>Contents of ${escapeHtml(path.basename(folder))}.zip:</p><ul>${items.join('')}</ul>`;
+    })
+    .join('');
+}
@@ -0,0 +1,283 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Deposition, ZenodoRecord } from './index.js';
+import type { DepositFrontmatter } from './frontmatter.js';
+import {
+  depositionToFrontmatter,
+  frontmatterToDepositionMetadata,
+  normalizeLanguage,
+} from './frontmatter.js';
+
+const frontmatter: DepositFrontmatter = {
+  title: 'My Article',
+  description: 'Abstract',
+  date: '2024-07-10T12:00:00.000Z',
+  authors: [
+    {
+      id: 'jane',
+      name: 'Jane Smith',
+      nameParsed: { literal: 'Jane Smith', given: 'Jane', family: 'Smith' },
+      orcid: '0000-0002-1694-233X',
+      affiliations: ['uni'],
+    },
+  ],
+  affiliations: [{ id: 'uni', name: 'University' }],
+};
+
+describe('frontmatterToDepositionMetadata', () => {
+  it('maps basic fields', () => {
+    expect(frontmatterToDepositionMetadata(frontmatter, { uploadType: 'poster' })).toEqual({
+      title: 'My Article',
+      description: 'Abstract',
+      upload_type: 'poster',
+      publication_date: '2024-07-10',
+      creators: [{ name: 'Smith, Jane', affiliation: 'University', orcid: '0000-0002-1694-233X' }],
+    });
+  });
+  it('keywords include the subject', () => {
+    const data = frontmatterToDepositionMetadata(
+      { ...frontmatter, keywords: ['myst', 'zenodo'], subject: 'Open Science' },
+      { uploadType: 'dataset' },
+    );
+    expect(data.keywords).toEqual(['myst', 'zenodo', 'Open Science']);
+  });
+  it('license ids are lowercase, code license is used for software', () => {
+    const license = {
+      content: { id: 'CC-BY-4.0', name: 'Creative Commons Attribution 4.0 International' },
+      code: { id: 'MIT', name: 'MIT License' },
+    };
+    expect(
+      frontmatterToDepositionMetadata({ ...frontmatter, license }, { uploadType: 'dataset' })
+        .license,
+    ).toBe('cc-by-4.0');
+    expect(
+      frontmatterToDepositionMetadata({ ...frontmatter, license }, { uploadType: 'software' })
+        .license,
+    ).toBe('mit');
+  });
+  it('warns for licenses without an id', () => {
+    const onWarning = vi.fn();
+    const data = frontmatterToDepositionMetadata(
+      { ...frontmatter, license: { content: { name: 'Custom license' } } },
+      { uploadType: 'dataset', onWarning },
+    );
+    expect(data.license).toBeUndefined();
+    expect(onWarning).toHaveBeenCalledOnce();
+  });
+  it('language is normalized', () => {
+    const data = frontmatterToDepositionMetadata(
+      { ...frontmatter, language: 'en' },
+      { uploadType: 'dataset' },
+    );
+    expect(data.language).toBe('eng');
+  });
+  it('funding statements are added to notes', () => {
+    const data = frontmatterToDepositionMetadata(
+      { ...frontmatter, funding: [{ statement: 'Funded by A' }, { statement: 'Funded by B' }] },
+      { uploadType: 'dataset' },
+    );
+    expect(data.notes).toBe('Funded by A\n\nFunded by B');
+  });
+  it('non-author contributors and editors are contributors', () => {
+    const data = frontmatterToDepositionMetadata(
+      {
+        ...frontmatter,
+        contributors: [
+          {
+            id: 'ed',
+            name: 'Ed Itor',
+            nameParsed: { literal: 'Ed Itor', given: 'Ed', family: 'Itor' },
+          },
+          {
+            id: 'cur',
+            name: 'Cu Rator',
+            nameParsed: { literal: 'Cu Rator', given: 'Cu', family: 'Rator' },
+            roles: ['Data curation'],
+          },
+        ],
+        editors: ['ed'],
+      },
+      { uploadType: 'dataset' },
+    );
+    expect(data.contributors).toEqual([
+      { name: 'Itor, Ed', type: 'Editor' },
+      { name: 'Rator, Cu', type: 'DataCurator' },
+    ]);
+  });
+  it('supervisors of a thesis are thesis supervisors', () => {
+    const data = frontmatterToDepositionMetadata(
+      {
+        ...frontmatter,
+        contributors: [
+          {
+            id: 'sup',
+            name: 'Su Pervisor',
+            nameParsed: { literal: 'Su Pervisor', given: 'Su', family: 'Pervisor' },
+            roles: ['Supervision'],
+          },
+        ],
+      },
+      { uploadType: 'publication', publicationType: 'thesis' },
+    );
+    expect(data.thesis_supervisors).toEqual([{ name: 'Pervisor, Su' }]);
+    expect(data.contributors).toBeUndefined();
+  });
+  it('related identifiers from citations, github, venue and config', () => {
+    const data = frontmatterToDepositionMetadata(
+      {
+        ...frontmatter,
+        github: 'https://github.com/org/repo',
+        venue: { title: 'Journal', doi: 'https://doi.org/10.1234/journal' },
+      },
+      {
+        uploadType: 'poster',
+        citations: [{ doi: '10.1234/paper' }, { doi: '10.1234/PAPER' }, { doi: '10.1234/other' }],
+        referenceFormat: 'doi',
+        relatedIdentifiers: [{ identifier: '10.1234/paper', relation: 'isSupplementTo' }],
+      },
+    );
+    expect(data.related_identifiers).toEqual([
+      { identifier: '10.1234/paper', relation: 'isSupplementTo' },
+      { identifier: '10.1234/paper', relation: 'cites' },
+      { identifier: '10.1234/other', relation: 'cites' },
+      {
+        identifier: 'https://github.com/org/repo',
+        relation: 'isSupplementedBy',
+        resource_type: 'software',
+      },
+      { identifier: '10.1234/journal', relation: 'isPartOf' },
+    ]);
+  });
+  it('journal fields are used for articles', () => {
+    const data = frontmatterToDepositionMetadata(
+      {
+        ...frontmatter,
+        venue: { title: 'Journal', issn: '1234-5678' },
+        volume: { number: 3 },
+        issue: { number: 2 },
+        first_page: 10,
+        last_page: 20,
+      },
+      { uploadType: 'publication', publicationType: 'article' },
+    );
+    expect(data).toMatchObject({
+      publication_type: 'article',
+      journal_title: 'Journal',
+      journal_volume: '3',
+      journal_issue: '2',
+      journal_pages: '10-20',
+      custom: { 'journal:journal': { issn: '1234-5678' } },
+    });
+    expect(data.conference_title).toBeUndefined();
+  });
+  it('imprint fields are used for reports', () => {
+    const data = frontmatterToDepositionMetadata(
+      {
+        ...frontmatter,
+        venue: { title: 'Institute', publisher: 'Press', location: 'Paris' },
+        identifiers: { isbn: '978-3-16-148410-0' },
+      },
+      { uploadType: 'publication', publicationType: 'report' },
+    );
+    expect(data).toMatchObject({ imprint_publisher: 'Press', imprint_isbn: '978-3-16-148410-0' });
+    expect(data.imprint_place).toBeUndefined();
+    expect(data.journal_title).toBeUndefined();
+  });
+  it('conference fields are used for posters', () => {
+    const data = frontmatterToDepositionMetadata(
+      {
+        ...frontmatter,
+        venue: {
+          title: 'SciPy Conference',
+          short_title: 'SciPy',
+          url: 'https://scipy.org',
+          date: '8-14 July 2024',
+          location: 'Tacoma, WA',
+        },
+      },
+      { uploadType: 'poster' },
+    );
+    expect(data).toMatchObject({
+      conference_title: 'SciPy Conference',
+      conference_acronym: 'SciPy',
+      conference_url: 'https://scipy.org',
+      conference_dates: '8-14 July 2024',
+      conference_place: 'Tacoma, WA',
+    });
+  });
+  it('publication and image types are only used for their upload types', () => {
+    const data = frontmatterToDepositionMetadata(frontmatter, {
+      uploadType: 'poster',
+      publicationType: 'article',
+      imageType: 'figure',
+    });
+    expect(data.publication_type).toBeUndefined();
+    expect(data.image_type).toBeUndefined();
+  });
+});
+
+describe('normalizeLanguage', () => {
+  it('two letter codes are converted', () => {
+    expect(normalizeLanguage('FR')).toBe('fra');
+  });
+  it('three letter codes are kept', () => {
+    expect(normalizeLanguage('deu')).toBe('deu');
+  });
+});
+
+describe('depositionToFrontmatter', () => {
+  const metadata = {
+    title: 'Old Poster',
+    description: '<p>First &amp; second.</p><p>Another<br>line</p>',
+    publication_date: '2019-07-10',
+    creators: [
+      { name: 'Smith, Jane', affiliation: 'University', orcid: '0000-0002-1694-233X' },
+      { name: 'Doe, John', affiliation: 'University' },
+      { name: 'Roe, Rick' },
+    ],
+    keywords: ['myst'],
+    doi: '10.5281/zenodo.1234',
+  };
+  it('maps a deposition', () => {
+    const deposition = {
+      id: 1234,
+      metadata: { ...metadata, upload_type: 'poster', license: 'cc-by-4.0', language: 'eng' },
+    } as Deposition;
+    expect(depositionToFrontmatter(deposition)).toEqual({
+      title: 'Old Poster',
+      parts: { abstract: ['First & second.\n\nAnother\nline'] },
+      date: '2019-07-10',
+      authors: [
+        { name: 'Smith, Jane', orcid: '0000-0002-1694-233X', affiliations: ['aff1'] },
+        { name: 'Doe, John', affiliations: ['aff1'] },
+        { name: 'Roe, Rick' },
+      ],
+      affiliations: [{ id: 'aff1', name: 'University' }],
+      keywords: ['myst'],
+      license: { content: { id: 'CC-BY-4.0' } },
+      language: 'eng',
+      doi: '10.5281/zenodo.1234',
+      identifiers: { zenodo: 'https://zenodo.org/deposit/1234' },
+    });
+  });
+  it('maps a published record', () => {
+    const record = {
+      id: 1234,
+      doi: '10.5281/zenodo.1234',
+      metadata: {
+        ...metadata,
+        doi: undefined,
+        resource_type: { type: 'poster' },
+        license: { id: 'mit' },
+      },
+    } as unknown as ZenodoRecord;
+    expect(depositionToFrontmatter(record, { sandbox: true })).toMatchObject({
+      license: { content: { id: 'MIT' } },
+      doi: '10.5281/zenodo.1234',
+      identifiers: { zenodo: 'https://sandbox.zenodo.org/deposit/1234' },
+    });
+  });
+  it('leaves out the deposit of records that cannot be updated', () => {
+    const record = { id: 1234, metadata } as unknown as ZenodoRecord;
+    expect(depositionToFrontmatter(record, { linkDeposit: false }).identifiers).toBeUndefined();
+  });
+});
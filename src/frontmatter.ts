@@ -0,0 +1,521 @@
+import type { Affiliation, Contributor, License, ProjectFrontmatter } from 'myst-frontmatter';
+import { LICENSES } from 'myst-frontmatter';
+import type {
+  Contributor as ZenodoContributor,
+  ContributorType,
+  Creator,
+  Deposition,
+  DepositionMetadata,
+  ImageType,
+  PublicationType,
+  RelatedIdentifier,
+  UploadType,
+  ZenodoRecord,
+} from './index.js';
+import { grantsFromFunding } from './grants.js';
+import { htmlToText } from './html.js';
+import { formatCreatorName } from './names.js';
+import type { Citation, ReferenceFormat } from './references.js';
+import { formatReferences } from './references.js';
+import { ISO_639_1_TO_639_2 } from './validate.js';
+
+export type IssueData = ReturnType<typeof issueDataFromArticles>;
+
+/**
+ * MyST frontmatter used for a deposit
+ *
+ * `language` is included for versions of MyST that support it.
+ */
+export type DepositFrontmatter = ProjectFrontmatter & { language?: string };
+
+export type FrontmatterToDepositionOptions = {
+  uploadType: UploadType;
+  /** Used if the upload type is "publication" */
+  publicationType?: PublicationType;
+  /** Used if the upload type is "image" */
+  imageType?: ImageType;
+  /** Description as HTML, for example the rendered abstract, defaults to the frontmatter description */
+  description?: string;
+  /** Zenodo community identifier */
+  community?: string;
+  /** Venue and editor data shared by a batch of articles, defaults to data from this frontmatter */
+  issue?: IssueData;
+  /** Citations in the content, these are added to references and related as `cites` */
+  citations?: Citation[];
+  /** Format of the references, defaults to full formatted references */
+  referenceFormat?: ReferenceFormat;
+  /** Other related identifiers, for example from the `zenodo_deposit` project options */
+  relatedIdentifiers?: RelatedIdentifier[];
+  /** Called for frontmatter values that cannot be mapped to Zenodo */
+  onWarning?: (message: string) => void;
+};
+
+export type DepositionToFrontmatterOptions = {
+  /** Link `identifiers.zenodo` to the sandbox */
+  sandbox?: boolean;
+  /**
+   * Set `identifiers.zenodo`, only for deposits of the current user as other records
+   * cannot be updated. Defaults to true.
+   */
+  linkDeposit?: boolean;
+};
+
+/** Zenodo contributor types for CRediT roles */
+const CREDIT_ROLE_CONTRIBUTOR_TYPES: Record<string, ContributorType> = {
+  'data curation': 'DataCurator',
+  investigation: 'Researcher',
+  'project administration': 'ProjectManager',
+  resources: 'Distributor',
+  supervision: 'Supervisor',
+  'funding acquisition': 'Sponsor',
+};
+
+/**
+ * Combine venue, volume, issue and editor data from a batch of articles
+ *
+ * An error is thrown if articles have conflicting values.
+ */
+export function issueDataFromArticles(articles: { frontmatter: ProjectFrontmatter }[]) {
+  let venueTitle: string | undefined;
+  let venueAbbr: string | undefined;
+  let venueDoi: string | undefined;
+  let venueUrl: string | undefined;
+  let volumeNumber: string | undefined;
+  let volumeDoi: string | undefined;
+  let issueNumber: string | undefined;
+  let issueDoi: string | undefined;
+  let journalSeries: string | undefined;
+  let journalIssn: string | undefined;
+  let eventNumber: string | number | undefined;
+  let eventDate: string | undefined;
+  let eventLocation: string | undefined;
+  let volumeTitle: string | undefined;
+  let venuePublisher: string | undefined;
+  let volumeSubject: string | undefined;
+  let publicationEditors:
+    (Omit<Contributor, 'affiliations'> & { affiliations: Affiliation[] })[] | undefined;
+  articles.forEach(({ frontmatter }) => {
+    const { volume, issue, venue, editors, contributors, affiliations } = frontmatter;
+    if (venue?.title) {
+      if (!venueTitle) {
+        venueTitle = venue.title;
+      } else if (venueTitle !== venue.title) {
+        throw new Error(`Conflicting venue titles: "${venueTitle}" and "${venue.title}"`);
+      }
+    }
+    if (venue?.short_title) {
+      if (!venueAbbr) {
+        venueAbbr = venue.short_title;
+      } else if (venueAbbr !== venue.short_title) {
+        throw new Error(
+          `Conflicting journal abbreviations: "${venueAbbr}" and "${venue.short_title}"`,
+        );
+      }
+    }
+    if (venue?.doi) {
+      if (!venueDoi) {
+        venueDoi = venue.doi;
+      } else if (venueDoi !== venue.doi) {
+        throw new Error(`Conflicting journal dois: "${venueDoi}" and "${venue.doi}"`);
+      }
+    }
+    if (venue?.url) {
+      if (!venueUrl) {
+        venueUrl = venue.url;
+      } else if (venueUrl !== venue.url) {
+        throw new Error(`Conflicting venue urls: "${venueUrl}" and "${venue.url}"`);
+      }
+    }
+    if (venue?.series) {
+      if (!journalSeries) {
+        journalSeries = venue.series;
+      } else if (journalSeries !== venue.series) {
+        throw new Error(`Conflicting series: "${journalSeries}" and "${venue.series}"`);
+      }
+    }
+    if (venue?.issn) {
+      if (!journalIssn) {
+        journalIssn = venue.issn;
+      } else if (journalIssn !== venue.issn) {
+        throw new Error(`Conflicting issn: "${journalIssn}" and "${venue.issn}"`);
+      }
+    }
+    if (venue?.number != null) {
+      if (!eventNumber) {
+        eventNumber = venue.number;
+      } else if (eventNumber !== venue.number) {
+        throw new Error(`Conflicting event number: "${eventNumber}" and "${venue.number}"`);
+      }
+    }
+    if (venue?.date != null) {
+      if (!eventDate) {
+        eventDate = venue.date;
+      } else if (eventDate !== venue.date) {
+        throw new Error(`Conflicting event date: "${eventDate}" and "${venue.date}"`);
+      }
+    }
+    if (venue?.location != null) {
+      if (!eventLocation) {
+        eventLocation = venue.location;
+      } else if (eventLocation !== venue.location) {
+        throw new Error(`Conflicting event location: "${eventLocation}" and "${venue.location}"`);
+      }
+    }
+    if (venue?.publisher != null) {
+      if (!venuePublisher) {
+        venuePublisher = venue.publisher;
+      } else if (venuePublisher !== venue.publisher) {
+        throw new Error(
+          `Conflicting venue publisher: "${venuePublisher}" and "${venue.publisher}"`,
+        );
+      }
+    }
+    if (volume?.number) {
+      if (!volumeNumber) {
+        volumeNumber = String(volume.number);
+      } else if (volumeNumber !== String(volume.number)) {
+        throw new Error(`Conflicting volumes: "${volumeNumber}" and "${volume.number}"`);
+      }
+    }
+    if (volume?.doi) {
+      if (!volumeDoi) {
+        volumeDoi = volume.doi;
+      } else if (volumeDoi !== volume.doi) {
+        throw new Error(`Conflicting volume dois: "${volumeDoi}" and "${volume.doi}"`);
+      }
+    }
+    if (issue?.number) {
+      if (!issueNumber) {
+        issueNumber = String(issue.number);
+      } else if (issueNumber !== String(issue.number)) {
+        throw new Error(`Conflicting issues: "${issueNumber}" and "${issue.number}"`);
+      }
+    }
+    if (issue?.doi) {
+      if (!issueDoi) {
+        issueDoi = issue.doi;
+      } else if (issueDoi !== issue.doi) {
+        throw new Error(`Conflicting issue dois: "${issueDoi}" and "${issue.doi}"`);
+      }
+    }
+    if (volume?.title) {
+      if (!volumeTitle) {
+        volumeTitle = volume.title;
+      } else if (volumeTitle !== volume.title) {
+        throw new Error(`Conflicting volume titles: "${volumeTitle}" and "${volume.title}"`);
+      }
+    }
+    if (volume?.subject) {
+      if (!volumeSubject) {
+        volumeSubject = volume.subject;
+      } else if (volumeSubject !== volume.subject) {
+        throw new Error(
+          `Conflicting proceedings subjects: "${volumeSubject}" and "${volume.subject}"`,
+        );
+      }
+    }
+    if (editors?.length) {
+      publicationEditors = (editors
+        ?.map((editor) => contributors?.find(({ id }) => editor === id))
+        .filter((editor): editor is Contributor => !!editor)
+        .map((editor) => ({
+          ...editor,
+          affiliations: editor.affiliations?.map((aff) =>
+            affiliations?.find((test) => test.id === aff),
+          ) as Affiliation[],
+        })) ?? []) as (Contributor & { affiliations: Affiliation[] })[];
+    }
+  });
+  return {
+    venueTitle,
+    venueDoi,
+    venueAbbr,
+    venueUrl,
+    volumeNumber,
+    volumeDoi,
+    issueNumber,
+    issueDoi,
+    journalSeries,
+    journalIssn,
+    eventNumber,
+    eventDate,
+    eventLocation,
+    volumeTitle,
+    venuePublisher,
+    volumeSubject,
+    publicationEditors,
+  };
+}
+
+function affiliationNames(ids: string[] | undefined, affiliations: Affiliation[] | undefined) {
+  const names = ids
+    ?.map((id) => affiliations?.find((test) => test.id === id))
+    .map((aff) => aff?.name)
+    .filter((name): name is string => !!name);
+  return names?.length ? names.join(', ') : undefined;
+}
+
+function contributorType(contributor: Contributor): ContributorType {
+  const types = contributor.roles
+    ?.map((role) => CREDIT_ROLE_CONTRIBUTOR_TYPES[role.toLowerCase()])
+    .filter((type) => !!type);
+  return types?.[0] ?? 'Other';
+}
+
+function creatorFromAuthor(
+  author: Contributor,
+  affiliations: Affiliation[] | undefined,
+  onWarning?: (message: string) => void,
+): Creator {
+  return {
+    name: formatCreatorName(author, onWarning) ?? '',
+    affiliation: affiliationNames(author.affiliations, affiliations),
+    orcid: author.orcid,
+  };
+}
+
+function doiIdentifier(doi: string): string {
+  return doi.trim().replace(/^https?:\/\/(dx\.)?doi\.org\//, '');
+}
+
+/**
+ * Related identifiers from citations, the GitHub repository, and venue, volume and issue DOIs
+ *
+ * Duplicate identifiers with the same relation are removed, keeping the first.
+ */
+function relatedIdentifiers(
+  frontmatter: DepositFrontmatter,
+  issue: IssueData,
+  opts: FrontmatterToDepositionOptions,
+): RelatedIdentifier[] {
+  const related: RelatedIdentifier[] = [...(opts.relatedIdentifiers ?? [])];
+  opts.citations?.forEach(({ doi }) => {
+    if (doi) related.push({ identifier: doiIdentifier(doi), relation: 'cites' });
+  });
+  if (frontmatter.github) {
+    related.push({
+      identifier: frontmatter.github,
+      relation: 'isSupplementedBy',
+      resource_type: 'software',
+    });
+  }
+  [issue.issueDoi, issue.volumeDoi, issue.venueDoi].forEach((doi) => {
+    if (doi) related.push({ identifier: doiIdentifier(doi), relation: 'isPartOf' });
+  });
+  return related.filter(
+    ({ identifier, relation }, index) =>
+      related.findIndex(
+        (test) =>
+          test.relation === relation && test.identifier.toLowerCase() === identifier.toLowerCase(),
+      ) === index,
+  );
+}
+
+/**
+ * Normalize an ISO 639-1 language code to ISO 639-2, as required by Zenodo
+ */
+export function normalizeLanguage(language: string): string {
+  return ISO_639_1_TO_639_2[language.toLowerCase()] ?? language.toLowerCase();
+}
+
+/**
+ * Normalize a date to ISO8601 format (YYYY-MM-DD), as required by Zenodo
+ */
+function normalizeDate(date: string | undefined): string | undefined {
+  if (!date) return undefined;
+  const match = date.match(/^\d{4}-\d{2}-\d{2}/);
+  if (match) return match[0];
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toISOString().slice(0, 10);
+}
+
+function pages(first?: string | number, last?: string | number): string | undefined {
+  if (first == null) return undefined;
+  return last == null ? String(first) : `${first}-${last}`;
+}
+
+/**
+ * Map MyST frontmatter to Zenodo deposition metadata
+ *
+ * Journal fields are filled for articles, imprint fields for books and reports,
+ * and conference fields for conference papers, posters and presentations.
+ */
+export function frontmatterToDepositionMetadata(
+  frontmatter: DepositFrontmatter,
+  opts: FrontmatterToDepositionOptions,
+): DepositionMetadata {
+  const { uploadType, community, onWarning } = opts;
+  const issue = opts.issue ?? issueDataFromArticles([{ frontmatter }]);
+  const { affiliations } = frontmatter;
+  const publicationType = uploadType === 'publication' ? opts.publicationType : undefined;
+  const data: DepositionMetadata = {
+    title: frontmatter.title ?? '',
+    description: opts.description ?? frontmatter.description ?? '',
+    upload_type: uploadType,
+    publication_date: normalizeDate(frontmatter.date),
+    imprint_publisher: issue.venuePublisher || issue.venueAbbr || issue.venueTitle,
+    creators:
+      frontmatter.authors?.map((author) => creatorFromAuthor(author, affiliations, onWarning)) ??
+      [],
+    doi: frontmatter.doi,
+  };
+  if (publicationType) data.publication_type = publicationType;
+  if (uploadType === 'image' && opts.imageType) data.image_type = opts.imageType;
+  if (community) data.communities = [{ identifier: community }];
+
+  const keywords = [...(frontmatter.keywords ?? [])];
+  if (frontmatter.subject && !keywords.includes(frontmatter.subject)) {
+    keywords.push(frontmatter.subject);
+  }
+  if (keywords.length) data.keywords = keywords;
+
+  const license =
+    uploadType === 'software'
+      ? (frontmatter.license?.code ?? frontmatter.license?.content)
+      : (frontmatter.license?.content ?? frontmatter.license?.code);
+  if (license?.id) {
+    data.license = license.id.toLowerCase();
+  } else if (license) {
+    onWarning?.(`License without an SPDX identifier cannot be used on zenodo: ${license.name}`);
+  }
+
+  if (frontmatter.language) data.language = normalizeLanguage(frontmatter.language);
+
+  const fundingStatements = frontmatter.funding
+    ?.map(({ statement }) => statement)
+    .filter((statement): statement is string => !!statement);
+  if (fundingStatements?.length) data.notes = fundingStatements.join('\n\n');
+  const grants = grantsFromFunding(frontmatter.funding, affiliations, onWarning);
+  if (grants.length) data.grants = grants;
+
+  const authorIds = frontmatter.authors?.map(({ id }) => id) ?? [];
+  const editorIds = frontmatter.editors ?? [];
+  const contributors: ZenodoContributor[] = [];
+  const thesisSupervisors: Creator[] = [];
+  frontmatter.contributors
+    ?.filter(({ id }) => !authorIds.includes(id))
+    .forEach((contributor) => {
+      const creator = creatorFromAuthor(contributor, affiliations, onWarning);
+      const type =
+        contributor.id && editorIds.includes(contributor.id)
+          ? 'Editor'
+          : contributorType(contributor);
+      // Supervisors of a thesis have their own field on zenodo
+      if (publicationType === 'thesis' && type === 'Supervisor') thesisSupervisors.push(creator);
+      else contributors.push({ ...creator, type });
+    });
+  issue.publicationEditors
+    ?.filter(({ id }) => !frontmatter.contributors?.find((test) => test.id === id))
+    .forEach((editor) => {
+      contributors.push({
+        type: 'Editor',
+        name: formatCreatorName(editor, onWarning) ?? '',
+        orcid: editor.orcid,
+        affiliation: editor.affiliations.map((a) => a.name).join(', '),
+      });
+    });
+  if (contributors.length) data.contributors = contributors;
+  if (thesisSupervisors.length) data.thesis_supervisors = thesisSupervisors;
+
+  const references = formatReferences(opts.citations ?? [], opts.referenceFormat);
+  if (references.length) data.references = references;
+  const related = relatedIdentifiers(frontmatter, issue, opts);
+  if (related.length) data.related_identifiers = related;
+
+  if (publicationType === 'article') {
+    data.journal_title = issue.venueTitle;
+    data.journal_volume = issue.volumeNumber;
+    data.journal_issue = issue.issueNumber;
+    data.journal_pages = pages(frontmatter.first_page, frontmatter.last_page);
+    if (issue.journalIssn) {
+      data.custom = { ...data.custom, 'journal:journal': { issn: issue.journalIssn } };
+    }
+  }
+  if (publicationType === 'section') {
+    data.partof_title = issue.volumeTitle ?? issue.venueTitle;
+    data.partof_pages = pages(frontmatter.first_page, frontmatter.last_page);
+  }
+  // MyST has no place of publication, the venue location is where an event is held
+  const isbn = frontmatter.identifiers?.isbn;
+  if (
+    isbn != null &&
+    (publicationType === 'book' || publicationType === 'report' || publicationType === 'section')
+  ) {
+    data.imprint_isbn = String(isbn);
+  }
+  if (
+    uploadType === 'presentation' ||
+    uploadType === 'poster' ||
+    publicationType === 'conferencepaper'
+  ) {
+    data.conference_title = issue.venueTitle;
+    data.conference_acronym = issue.venueAbbr;
+    data.conference_url = issue.venueUrl;
+    data.conference_dates = issue.eventDate;
+    data.conference_place = issue.eventLocation;
+  }
+  if (
+    frontmatter.github &&
+    (uploadType !== 'publication' || publicationType === 'conferencepaper')
+  ) {
+    data.custom = { ...data.custom, 'code:codeRepository': frontmatter.github };
+  }
+  return data;
+}
+
+/**
+ * Zenodo license ids are lowercase, use the SPDX identifier if it is known
+ */
+function licenseFromId(id: string): License {
+  const spdx = Object.keys(LICENSES).find((key) => key.toLowerCase() === id.toLowerCase());
+  return { id: spdx ?? id };
+}
+
+/**
+ * Map a Zenodo deposition or published record to MyST frontmatter
+ *
+ * The description is converted to a plain text abstract in `parts`, and
+ * `identifiers.zenodo` links the frontmatter to the deposit for future updates.
+ */
+export function depositionToFrontmatter(
+  deposition: Deposition | ZenodoRecord,
+  opts: DepositionToFrontmatterOptions = {},
+): DepositFrontmatter {
+  const { metadata } = deposition;
+  const affiliations: Affiliation[] = [];
+  const affiliationId = (name: string) => {
+    let affiliation = affiliations.find((test) => test.name === name);
+    if (!affiliation) {
+      affiliation = { id: `aff${affiliations.length + 1}`, name };
+      affiliations.push(affiliation);
+    }
+    return affiliation.id as string;
+  };
+  const frontmatter: DepositFrontmatter = { title: metadata.title };
+  const abstract = metadata.description ? htmlToText(metadata.description) : undefined;
+  if (abstract) frontmatter.parts = { abstract: [abstract] };
+  if (metadata.publication_date) frontmatter.date = metadata.publication_date;
+  const authors = metadata.creators?.map(({ name, orcid, affiliation }) => {
+    const author: Contributor = { name };
+    if (orcid) author.orcid = orcid;
+    if (affiliation) author.affiliations = [affiliationId(affiliation)];
+    return author;
+  });
+  if (authors?.length) frontmatter.authors = authors;
+  if (affiliations.length) frontmatter.affiliations = affiliations;
+  if (metadata.keywords?.length) frontmatter.keywords = [...metadata.keywords];
+  const license = typeof metadata.license === 'string' ? metadata.license : metadata.license?.id;
+  if (license) frontmatter.license = { content: licenseFromId(license) };
+  if (metadata.language) frontmatter.language = metadata.language;
+  const doi = deposition.doi || metadata.doi;
+  if (doi) frontmatter.doi = doi;
+  const github = metadata.custom?.['code:codeRepository'];
+  if (github) frontmatter.github = github;
+  if (opts.linkDeposit ?? true) {
+    frontmatter.identifiers = {
+      zenodo: `https://${opts.sandbox ? 'sandbox.' : ''}zenodo.org/deposit/${deposition.id}`,
+    };
+  }
+  return frontmatter;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findGrantFunder, grantsFromFunding } from './grants.js';
+
+describe('findGrantFunder', () => {
+  it('funder is found by DOI', () => {
+    expect(findGrantFunder({ doi: 'https://doi.org/10.13039/100000001' })?.name).toBe(
+      'National Science Foundation',
+    );
+  });
+  it('funder is found by ROR', () => {
+    expect(findGrantFunder({ ror: 'https://ror.org/01cwqze88' })?.name).toBe(
+      'National Institutes of Health',
+    );
+  });
+  it('funder is found by name or abbreviation', () => {
+    expect(findGrantFunder({ name: 'wellcome trust' })?.doi).toBe('10.13039/100004440');
+    expect(findGrantFunder({ name: 'NSERC' })?.doi).toBe('10.13039/501100000038');
+  });
+  it('unknown funders are not found', () => {
+    expect(findGrantFunder({ name: 'Acme Foundation' })).toBeUndefined();
+  });
+});
+
+describe('grantsFromFunding', () => {
+  const affiliations = [
+    { id: 'nsf', name: 'National Science Foundation' },
+    { id: 'ec', name: 'European Union', doi: '10.13039/501100000780' },
+    { id: 'acme', name: 'Acme Foundation' },
+  ];
+  it('awards are prefixed with the funder DOI', () => {
+    expect(
+      grantsFromFunding(
+        [
+          { awards: [{ id: '123456', sources: ['nsf'] }] },
+          { awards: [{ id: '283595', sources: ['ec'] }] },
+        ],
+        affiliations,
+      ),
+    ).toEqual([{ id: '10.13039/100000001::123456' }, { id: '10.13039/501100000780::283595' }]);
+  });
+  it('prefixed award ids are used as they are', () => {
+    expect(
+      grantsFromFunding([{ awards: [{ id: '10.13039/100000002::R01' }] }], affiliations),
+    ).toEqual([{ id: '10.13039/100000002::R01' }]);
+  });
+  it('warns for unsupported funders and awards without ids', () => {
+    const onWarning = vi.fn();
+    expect(
+      grantsFromFunding(
+        [
+          {
+            awards: [
+              { id: '1', sources: ['acme'] },
+              { name: 'Unknown', sources: ['nsf'] },
+              { id: '2' },
+            ],
+          },
+        ],
+        affiliations,
+        onWarning,
+      ),
+    ).toEqual([]);
+    expect(onWarning).toHaveBeenCalledTimes(3);
+  });
+});
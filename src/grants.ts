@@ -0,0 +1,241 @@
+import type { Affiliation, Funding } from 'myst-frontmatter';
+
+export type GrantFunder = {
+  name: string;
+  /** Crossref funder DOI, used as the grant ID prefix */
+  doi: string;
+  /** ROR identifier of the funder */
+  ror?: string;
+  /** Other names and abbreviations of the funder */
+  aliases?: string[];
+};
+
+/**
+ * Funders of OpenAIRE-supported grants on Zenodo
+ */
+export const GRANT_FUNDERS: GrantFunder[] = [
+  {
+    name: 'Academy of Finland',
+    doi: '10.13039/501100002341',
+    ror: '05k73zm37',
+    aliases: ['Research Council of Finland'],
+  },
+  {
+    name: 'Agence Nationale de la Recherche',
+    doi: '10.13039/501100001665',
+    ror: '00rbzpz17',
+    aliases: ['ANR', 'French National Research Agency'],
+  },
+  {
+    name: 'Aligning Science Across Parkinson’s',
+    doi: '10.13039/100018231',
+    aliases: ["Aligning Science Across Parkinson's", 'ASAP'],
+  },
+  {
+    name: 'Australian Research Council',
+    doi: '10.13039/501100000923',
+    ror: '05mmh0f86',
+    aliases: ['ARC'],
+  },
+  {
+    name: 'Austrian Science Fund',
+    doi: '10.13039/501100002428',
+    ror: '013tf3c58',
+    aliases: ['FWF', 'Fonds zur Förderung der wissenschaftlichen Forschung'],
+  },
+  {
+    name: 'Canadian Institutes of Health Research',
+    doi: '10.13039/501100000024',
+    ror: '01gavpb45',
+    aliases: ['CIHR'],
+  },
+  {
+    name: 'European Commission',
+    doi: '10.13039/501100000780',
+    ror: '00k4n6c32',
+    aliases: ['EC'],
+  },
+  { name: 'European Environment Agency', doi: '10.13039/501100000806', aliases: ['EEA'] },
+  {
+    name: 'Fundação para a Ciência e a Tecnologia',
+    doi: '10.13039/501100001871',
+    ror: '00snfqn58',
+    aliases: ['FCT', 'Foundation for Science and Technology'],
+  },
+  {
+    name: 'Hrvatska Zaklada za Znanost',
+    doi: '10.13039/501100004488',
+    aliases: ['HRZZ', 'Croatian Science Foundation'],
+  },
+  {
+    name: 'Institut National Du Cancer',
+    doi: '10.13039/501100006364',
+    aliases: ['INCa', 'French National Cancer Institute'],
+  },
+  {
+    name: 'Ministarstvo Prosvete, Nauke i Tehnološkog Razvoja',
+    doi: '10.13039/501100004564',
+    aliases: ['MESTD'],
+  },
+  {
+    name: 'Ministarstvo Znanosti, Obrazovanja i Sporta',
+    doi: '10.13039/501100006588',
+    aliases: ['MZOS'],
+  },
+  {
+    name: 'National Health and Medical Research Council',
+    doi: '10.13039/501100000925',
+    ror: '011kf5r70',
+    aliases: ['NHMRC'],
+  },
+  {
+    name: 'National Institutes of Health',
+    doi: '10.13039/100000002',
+    ror: '01cwqze88',
+    aliases: ['NIH'],
+  },
+  {
+    name: 'National Science Foundation',
+    doi: '10.13039/100000001',
+    ror: '021nxhr62',
+    aliases: ['NSF', 'U.S. National Science Foundation'],
+  },
+  {
+    name: 'Natural Sciences and Engineering Research Council of Canada',
+    doi: '10.13039/501100000038',
+    ror: '01h531d29',
+    aliases: ['NSERC'],
+  },
+  {
+    name: 'Nederlandse Organisatie voor Wetenschappelijk Onderzoek',
+    doi: '10.13039/501100003246',
+    ror: '04jsz6e67',
+    aliases: ['NWO', 'Dutch Research Council'],
+  },
+  { name: 'Research Councils', doi: '10.13039/501100000690', aliases: ['RCUK'] },
+  {
+    name: 'Schweizerischer Nationalfonds zur Förderung der wissenschaftlichen Forschung',
+    doi: '10.13039/501100001711',
+    ror: '00yjd3n13',
+    aliases: ['SNSF', 'SNF', 'Swiss National Science Foundation'],
+  },
+  {
+    name: 'Science Foundation Ireland',
+    doi: '10.13039/501100001602',
+    ror: '0271asj38',
+    aliases: ['SFI'],
+  },
+  { name: 'Social Science Research Council', doi: '10.13039/100001345', aliases: ['SSRC'] },
+  {
+    name: 'Templeton World Charity Foundation',
+    doi: '10.13039/501100011730',
+    aliases: ['TWCF'],
+  },
+  {
+    name: 'Türkiye Bilimsel ve Teknolojik Araştırma Kurumu',
+    doi: '10.13039/501100004410',
+    ror: '04w9kkr77',
+    aliases: ['TÜBİTAK', 'TUBITAK'],
+  },
+  {
+    name: 'UK Research and Innovation',
+    doi: '10.13039/100014013',
+    ror: '001aqnf71',
+    aliases: ['UKRI'],
+  },
+  {
+    name: 'Wellcome Trust',
+    doi: '10.13039/100004440',
+    ror: '029chgv08',
+    aliases: ['Wellcome'],
+  },
+];
+
+function normalizeDoi(doi: string): string {
+  return doi
+    .trim()
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//, '')
+    .toLowerCase();
+}
+
+function normalizeRor(ror: string): string {
+  return ror
+    .trim()
+    .replace(/^https?:\/\/ror\.org\//, '')
+    .toLowerCase();
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Find the OpenAIRE-supported funder of an affiliation by its funder DOI, ROR or name
+ */
+export function findGrantFunder(affiliation: Affiliation): GrantFunder | undefined {
+  const { doi, ror, name } = affiliation;
+  if (doi) {
+    const funder = GRANT_FUNDERS.find((test) => test.doi === normalizeDoi(doi));
+    if (funder) return funder;
+  }
+  if (ror) {
+    const funder = GRANT_FUNDERS.find((test) => test.ror && test.ror === normalizeRor(ror));
+    if (funder) return funder;
+  }
+  if (name) {
+    const funder = GRANT_FUNDERS.find((test) =>
+      [test.name, ...(test.aliases ?? [])].find(
+        (alias) => normalizeName(alias) === normalizeName(name),
+      ),
+    );
+    if (funder) return funder;
+  }
+  return undefined;
+}
+
+/**
+ * Map funding awards to Zenodo grant IDs, prefixed with the funder DOI (e.g. `10.13039/100000001::123456`)
+ *
+ * The funder is found from the award sources, which are affiliation ids. Awards without
+ * an ID or an OpenAIRE-supported funder are skipped, calling `onWarning`.
+ */
+export function grantsFromFunding(
+  funding: Funding[] | undefined,
+  affiliations: Affiliation[] | undefined,
+  onWarning?: (message: string) => void,
+): { id: string }[] {
+  const ids: string[] = [];
+  funding?.forEach(({ awards }) => {
+    awards?.forEach((award) => {
+      const label = award.name ? `"${award.name}"` : (award.id ?? 'award');
+      const awardId = award.id?.trim();
+      if (!awardId) {
+        onWarning?.(`Funding award ${label} has no id and cannot be linked as a grant`);
+        return;
+      }
+      if (awardId.includes('::')) {
+        ids.push(awardId);
+        return;
+      }
+      const sources = (award.sources ?? []).map(
+        (source) => affiliations?.find(({ id }) => id === source) ?? { name: source },
+      );
+      if (!sources.length) {
+        onWarning?.(`Funding award ${label} has no funder and cannot be linked as a grant`);
+        return;
+      }
+      sources.forEach((source) => {
+        const funder = findGrantFunder(source);
+        if (!funder) {
+          const funderName = source.name ?? source.doi ?? source.ror ?? source.id;
+          onWarning?.(
+            `Funder "${funderName}" of award ${label} is not OpenAIRE-supported, the grant cannot be linked on zenodo`,
+          );
+          return;
+        }
+        ids.push(`${funder.doi}::${awardId}`);
+      });
+    });
+  });
+  return [...new Set(ids)].map((id) => ({ id }));
+}
@@ -1,7 +1,45 @@
-import type { AxiosInstance } from 'axios';
+import type { AxiosInstance, AxiosResponse } from 'axios';
 import axios from 'axios';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { pipeline, Readable, Transform } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { Limit } from './limit.js';
+import { createLimit } from './limit.js';
+
+export {
+  depositionToFrontmatter,
+  frontmatterToDepositionMetadata,
+  issueDataFromArticles,
+  normalizeLanguage,
+} from './frontmatter.js';
+export type {
+  DepositFrontmatter,
+  DepositionToFrontmatterOptions,
+  FrontmatterToDepositionOptions,
+  IssueData,
+} from './frontmatter.js';
+export { findGrantFunder, GRANT_FUNDERS, grantsFromFunding } from './grants.js';
+export type { GrantFunder } from './grants.js';
+export { createLimit } from './limit.js';
+export type { Limit } from './limit.js';
+export { formatCreatorName } from './names.js';
+export type { NamedContributor } from './names.js';
+export { formatReferences, REFERENCE_FORMATS } from './references.js';
+export type { Citation, ReferenceFormat } from './references.js';
+export {
+  ACCESS_RIGHTS,
+  CONTRIBUTOR_TYPES,
+  IMAGE_TYPES,
+  isValidOrcid,
+  PUBLICATION_TYPES,
+  RELATION_TYPES,
+  UPLOAD_TYPES,
+  validateDepositionMetadata,
+} from './validate.js';
+export type { ValidateOptions, ValidationMessage, ValidationResult } from './validate.js';
 
 /**
  * The creators/authors of the deposition. Each array element is an object with the attributes:
@@ -168,6 +206,74 @@ export type PublicationType =
 
 export type ImageType = 'figure' | 'plot' | 'drawing' | 'diagram' | 'photo' | 'other';
 
+/**
+ * Relation of the deposition to a related identifier, for example a deposition `cites` a paper
+ */
+export type RelationType =
+  | 'isCitedBy'
+  | 'cites'
+  | 'isSupplementTo'
+  | 'isSupplementedBy'
+  | 'isContinuedBy'
+  | 'continues'
+  | 'isDescribedBy'
+  | 'describes'
+  | 'hasMetadata'
+  | 'isMetadataFor'
+  | 'isVersionOf'
+  | 'hasVersion'
+  | 'isNewVersionOf'
+  | 'isPreviousVersionOf'
+  | 'isPartOf'
+  | 'hasPart'
+  | 'isReferencedBy'
+  | 'references'
+  | 'isDocumentedBy'
+  | 'documents'
+  | 'isCompiledBy'
+  | 'compiles'
+  | 'isVariantFormOf'
+  | 'isOriginalFormOf'
+  | 'isIdenticalTo'
+  | 'isAlternateIdentifier'
+  | 'isReviewedBy'
+  | 'reviews'
+  | 'isDerivedFrom'
+  | 'isSourceOf'
+  | 'requires'
+  | 'isRequiredBy'
+  | 'isObsoletedBy'
+  | 'obsoletes';
+
+/**
+ * Resource type of a related identifier, using the upload type and the
+ * publication or image type (e.g. `publication-article` or `image-figure`)
+ */
+export type RelatedResourceType =
+  | Exclude<UploadType, 'publication' | 'image'>
+  | `publication-${PublicationType}`
+  | `image-${ImageType}`;
+
+/**
+ * Related identifier.
+ *
+ * **Example:**
+ *
+ * ```json
+ * [
+ *    {"relation": "isSupplementTo", "identifier": "10.1234/foo", "resource_type": "publication-article"},
+ *    {"relation": "cites", "identifier": "https://doi.org/10.1234/bar"}
+ * ]
+ * ```
+ */
+export type RelatedIdentifier = {
+  /** Persistent identifier, for example a DOI, URL, arXiv ID or ISBN (scheme is automatically detected) */
+  identifier: string;
+  relation: RelationType;
+  /** Type of the related resource (optional) */
+  resource_type?: RelatedResourceType;
+};
+
 export type Subject = {
   /** Term from taxonomy or controlled vocabulary. */
   term: string;
@@ -294,7 +400,7 @@ export interface DepositionMetadata {
    * provide a dataset DOI to your publisher but not yet publish your dataset.
    * The response from the REST API will include the reserved DOI.
    */
-  prereserve_doi?: boolean | { doi: string };
+  prereserve_doi?: boolean | { doi: string; recid?: number };
 
   /**  Free form keywords for this deposition.
    *
@@ -313,6 +419,12 @@ export interface DepositionMetadata {
    */
   contributors?: Contributor[];
 
+  /**
+   * Persistent identifiers of related publications, datasets and software,
+   * and their relation to this deposition.
+   */
+  related_identifiers?: RelatedIdentifier[];
+
   /**
    * List of references for the deposition.
    *
@@ -533,28 +645,383 @@ export interface DepositionMetadata {
    * custom metadata, not exposed
    */
   custom?: {
+    'journal:journal'?: {
+      title?: string;
+      issn?: string;
+      volume?: string;
+      issue?: string;
+      pages?: string;
+    };
     'code:codeRepository'?: string;
     'code:programmingLanguage'?: { id: string; title: { en: string } }[];
   };
 }
 
+/**
+ * File of a deposition, as returned from the deposition files API.
+ */
+export type DepositionFile = {
+  id: string;
+  filename: string;
+  /** Size of the file in bytes. */
+  filesize: number;
+  /** MD5 checksum of the file. */
+  checksum: string;
+  links: {
+    self: string;
+    download: string;
+  };
+};
+
+/**
+ * Object in a deposition bucket, as returned when uploading a file.
+ */
+export type BucketObject = {
+  key: string;
+  mimetype: string;
+  /** Checksum of the file, prefixed with the algorithm (e.g. `md5:...`). */
+  checksum: string;
+  version_id: string;
+  /** Size of the file in bytes. */
+  size: number;
+  created: string;
+  updated: string;
+  is_head: boolean;
+  delete_marker: boolean;
+  links: {
+    self: string;
+    version: string;
+    uploads: string;
+  };
+};
+
+/**
+ * State of a deposition:
+ *
+ * - inprogress: Deposition metadata can be updated. If deposition is also unsubmitted (see submitted) files can be updated as well.
+ * - done: Deposition has been published.
+ * - error: Deposition is in an error state - contact our support.
+ */
+export type DepositionState = 'inprogress' | 'done' | 'error' | 'unsubmitted';
+
 export type Deposition = {
   id: number;
+  /** Record ID, the same as `id` for depositions */
+  record_id: number;
+  /** Concept record ID, shared by all versions of the deposition */
+  conceptrecid: string;
+  /** Concept DOI, shared by all versions of the deposition */
+  conceptdoi?: string;
+  /** Digital Object Identifier, only present once the deposition is published */
+  doi?: string;
+  /** URL of the Digital Object Identifier */
+  doi_url?: string;
+  record_url?: string;
+  title: string;
+  owner: number;
+  state: DepositionState;
+  /** True if the deposition has been published, false otherwise */
   submitted: boolean;
+  /** Creation time of deposition (in ISO8601 format) */
+  created: string;
+  /** Last modification time of deposition (in ISO8601 format) */
+  modified: string;
+  files: DepositionFile[];
   metadata: DepositionMetadata;
   links: {
     self: string;
     html: string;
     bucket: string;
+    badge?: string;
+    files?: string;
+    edit?: string;
+    discard?: string;
+    publish?: string;
+    newversion?: string;
+    registerconceptdoi?: string;
+    latest?: string;
+    latest_html?: string;
+    latest_draft?: string;
+    latest_draft_html?: string;
+    doi?: string;
+    conceptdoi?: string;
+    record?: string;
+    record_html?: string;
+    conceptbadge?: string;
+  };
+};
+
+/**
+ * File of a published record, as returned from the records API.
+ */
+export type RecordFile = {
+  id: string;
+  key: string;
+  /** Size of the file in bytes. */
+  size: number;
+  /** Checksum of the file, prefixed with the algorithm (e.g. `md5:...`). */
+  checksum: string;
+  links: {
+    self: string;
+  };
+};
+
+/**
+ * Metadata of a published record, which differs from deposition metadata in
+ * how the license and resource type are represented.
+ */
+export type RecordMetadata = Omit<DepositionMetadata, 'license' | 'upload_type'> & {
+  license?: { id: string };
+  resource_type: {
+    type: UploadType;
+    subtype?: PublicationType | ImageType;
+    title?: string;
+  };
+};
+
+/**
+ * Published record, as returned from the public records API.
+ */
+export type ZenodoRecord = {
+  id: number;
+  recid: string;
+  conceptrecid: string;
+  doi?: string;
+  conceptdoi?: string;
+  doi_url?: string;
+  title: string;
+  /** Creation time of the record (in ISO8601 format) */
+  created: string;
+  /** Last modification time of the record (in ISO8601 format) */
+  updated: string;
+  files: RecordFile[];
+  metadata: RecordMetadata;
+  links: {
+    self: string;
+    html: string;
+    doi?: string;
+    files?: string;
+    latest?: string;
+    latest_html?: string;
   };
 };
 
+/**
+ * Options for listing or searching the depositions of the current user.
+ */
+export type ListDepositionsOptions = {
+  /** Search query, using Elasticsearch query string syntax. */
+  q?: string;
+  /** Filter result based on the deposit status. */
+  status?: 'draft' | 'published';
+  /** Sort order, prefix with minus to change from ascending to descending (e.g. `-mostrecent`). */
+  sort?: 'bestmatch' | 'mostrecent' | '-bestmatch' | '-mostrecent';
+  /** Page number for pagination. */
+  page?: number;
+  /** Number of results to return per page. */
+  size?: number;
+  /** Show (true) or hide (false) all versions of deposits. */
+  all_versions?: boolean;
+};
+
+/**
+ * Error raised when the checksum of an uploaded file does not match the local file.
+ */
+export class ZenodoChecksumError extends Error {
+  /** Name of the uploaded file */
+  fileName: string;
+  /** Checksum computed locally while uploading */
+  expected: string;
+  /** Checksum reported by Zenodo */
+  actual?: string;
+
+  constructor(fileName: string, expected: string, actual?: string) {
+    super(`Checksum mismatch for ${fileName}: expected ${expected}, received ${actual}`);
+    this.name = 'ZenodoChecksumError';
+    this.fileName = fileName;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Validation failure of a single field in a Zenodo request.
+ */
+export type ZenodoFieldError = {
+  /** Path to the field, for example `metadata.creators.0.orcid` */
+  field: string;
+  messages: string[];
+};
+
+/**
+ * Error returned from the Zenodo API, or raised when the API could not be reached.
+ */
+export class ZenodoApiError extends Error {
+  /** HTTP status of the response, undefined if there was no response */
+  status?: number;
+  /** Field-level validation errors reported by Zenodo */
+  errors: ZenodoFieldError[];
+  /** HTTP method of the failed request */
+  method?: string;
+  /** URL of the failed request, without the access token */
+  url?: string;
+  /** Raw response body */
+  data?: unknown;
+
+  constructor(
+    message: string,
+    opts: Pick<ZenodoApiError, 'status' | 'method' | 'url' | 'data'> & {
+      errors?: ZenodoFieldError[];
+    } = {},
+  ) {
+    super(message);
+    this.name = 'ZenodoApiError';
+    this.status = opts.status;
+    this.errors = opts.errors ?? [];
+    this.method = opts.method;
+    this.url = opts.url;
+    this.data = opts.data;
+  }
+}
+
+/**
+ * Parse field errors from a Zenodo error response body.
+ *
+ * Zenodo reports either a single `message` or a list of `messages` for each field.
+ */
+function parseFieldErrors(data: any): ZenodoFieldError[] {
+  if (!Array.isArray(data?.errors)) return [];
+  return data.errors.map((error: any) => {
+    const messages: unknown[] = Array.isArray(error?.messages)
+      ? error.messages
+      : [error?.message].filter((message) => message != null);
+    return {
+      field: String(error?.field ?? ''),
+      messages: messages.map((message) =>
+        typeof message === 'string' ? message : JSON.stringify(message),
+      ),
+    };
+  });
+}
+
+/**
+ * Policy for retrying failed requests to Zenodo.
+ */
+export type RetryOptions = {
+  /** Maximum number of attempts for each request, including the first. Defaults to 5. */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds, doubled for each further attempt. Defaults to 1000. */
+  initialDelay: number;
+  /** Maximum delay between attempts in milliseconds. Defaults to 60000. */
+  maxDelay: number;
+  /** HTTP status codes that are retried. Defaults to 429, 502, 503 and 504. */
+  statuses: number[];
+};
+
+export type ZenodoClientOptions = {
+  /** Retry policy for failed requests, set `maxAttempts: 1` to disable retries. */
+  retry?: Partial<RetryOptions>;
+  /** Compare the MD5 checksum of uploaded files with the checksum computed by Zenodo. Defaults to true. */
+  verifyChecksum?: boolean;
+  /** Number of times a file is uploaded again if the checksums do not match. Defaults to 0. */
+  checksumRetries?: number;
+  /** Maximum number of requests sent at the same time, including uploads. Defaults to no limit. */
+  concurrency?: number;
+};
+
+export type UploadProgress = {
+  /** Bytes sent, this restarts from zero if the upload is retried */
+  loaded: number;
+  /** Total size of the file in bytes */
+  total: number;
+};
+
+export type UploadFileOptions = {
+  /** Called as the file is streamed to Zenodo */
+  onProgress?: (progress: UploadProgress) => void;
+};
+
+/**
+ * File content to upload from memory rather than from disk.
+ */
+export type UploadContent = {
+  /** Name of the file on Zenodo */
+  filename: string;
+  /** Content of the file, streams can only be read once so their uploads are not retried */
+  data: Buffer | Readable | WebReadableStream<Uint8Array>;
+  /** Size of the file in bytes, required for streams and must match the length of buffers */
+  size?: number;
+  /** MIME type of the file. Defaults to `application/octet-stream`. */
+  contentType?: string;
+};
+
+type UploadSource = {
+  fileName: string;
+  size: number;
+  contentType: string;
+  /** Open the content to send, called for each attempt */
+  open: () => Readable;
+  /** Whether failed uploads can be sent again */
+  retryable: boolean;
+};
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 60000,
+  statuses: [429, 502, 503, 504],
+};
+
+/** Network error codes that are safe to retry. */
+const RETRY_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+];
+
+/**
+ * Status and network error codes of requests that did not reach Zenodo, so requests that
+ * are not idempotent can be sent again without creating or publishing anything twice.
+ */
+const UNSENT_STATUSES = [429];
+const UNSENT_ERROR_CODES = ['ECONNREFUSED'];
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a `Retry-After` header, in seconds or as an HTTP date, to a delay in milliseconds.
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (value == null || value === '') return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
 export class ZenodoClient {
   private accessToken: string;
   private axiosInstance: AxiosInstance;
   private baseURL: string = 'https://zenodo.org/api';
+  private retry: RetryOptions;
+  private verifyChecksum: boolean;
+  private checksumRetries: number;
+  private limit: Limit;
+  /** Time (ms since epoch) until which requests are paused by the rate limit. */
+  private rateLimitReset: number = 0;
 
-  constructor(accessToken: string | undefined, sandbox: boolean = false) {
+  constructor(
+    accessToken: string | undefined,
+    sandbox: boolean = false,
+    opts: ZenodoClientOptions = {},
+  ) {
     if (!accessToken) {
       throw new Error('Cannot connect to zenodo without an access token.');
     }
@@ -562,6 +1029,10 @@ export class ZenodoClient {
     if (sandbox) {
       this.baseURL = 'https://sandbox.zenodo.org/api';
     }
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...opts.retry };
+    this.verifyChecksum = opts.verifyChecksum ?? true;
+    this.checksumRetries = opts.checksumRetries ?? 0;
+    this.limit = createLimit(opts.concurrency);
     this.axiosInstance = axios.create({
       baseURL: this.baseURL,
       params: {
@@ -575,41 +1046,39 @@ export class ZenodoClient {
    * @param metadata Deposition metadata
    */
   public async createEmptyDeposition(): Promise<Deposition> {
-    try {
-      const response = await this.axiosInstance.post(
-        '/deposit/depositions',
-        {},
-        {
-          headers: {
-            'Content-Type': 'application/json',
+    return this.request(
+      () =>
+        this.axiosInstance.post(
+          '/deposit/depositions',
+          {},
+          {
+            headers: {
+              'Content-Type': 'application/json',
+            },
           },
-        },
-      );
-      return response.data;
-    } catch (error: any) {
-      this.handleError(error);
-    }
+        ),
+      { idempotent: false },
+    );
   }
 
   /**
    * Create a new deposition with the provided metadata.
    * @param metadata Deposition metadata
    */
-  public async createDeposition(metadata: DepositionMetadata): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post(
-        '/deposit/depositions',
-        { metadata },
-        {
-          headers: {
-            'Content-Type': 'application/json',
+  public async createDeposition(metadata: DepositionMetadata): Promise<Deposition> {
+    return this.request(
+      () =>
+        this.axiosInstance.post(
+          '/deposit/depositions',
+          { metadata },
+          {
+            headers: {
+              'Content-Type': 'application/json',
+            },
           },
-        },
-      );
-      return response.data;
-    } catch (error: any) {
-      this.handleError(error);
-    }
+        ),
+      { idempotent: false },
+    );
   }
 
   /**
@@ -617,21 +1086,35 @@ export class ZenodoClient {
    * @param depositionId ID of the deposition
    */
   public async getDeposition(depositionId: number): Promise<Deposition> {
-    try {
-      const response = await this.axiosInstance.get(`/deposit/depositions/${depositionId}`);
-      return response.data;
-    } catch (error: any) {
-      this.handleError(error);
-    }
+    return this.request(() => this.axiosInstance.get(`/deposit/depositions/${depositionId}`));
+  }
+
+  /**
+   * List or search the depositions of the current user.
+   * @param opts Search, filter, sort and pagination options
+   */
+  public async listDepositions(opts: ListDepositionsOptions = {}): Promise<Deposition[]> {
+    return this.request(() => this.axiosInstance.get('/deposit/depositions', { params: opts }));
+  }
+
+  /**
+   * Delete an unpublished deposition.
+   * @param depositionId ID of the deposition
+   */
+  public async deleteDeposition(depositionId: number): Promise<void> {
+    await this.request(() => this.axiosInstance.delete(`/deposit/depositions/${depositionId}`));
   }
 
   /**
    * Create a new deposition with the provided metadata.
    * @param metadata Deposition metadata
    */
-  public async updateDeposition(depositionId: number, metadata: DepositionMetadata): Promise<any> {
-    try {
-      const response = await this.axiosInstance.put(
+  public async updateDeposition(
+    depositionId: number,
+    metadata: DepositionMetadata,
+  ): Promise<Deposition> {
+    return this.request(() =>
+      this.axiosInstance.put(
         `/deposit/depositions/${depositionId}`,
         { metadata },
         {
@@ -639,46 +1122,133 @@ export class ZenodoClient {
             'Content-Type': 'application/json',
           },
         },
-      );
-      return response.data;
-    } catch (error: any) {
-      this.handleError(error);
-    }
+      ),
+    );
   }
 
   /**
    * Upload a file to an existing deposition.
-   * @param depositionId ID of the deposition
+   *
+   * The MD5 checksum is computed while streaming and compared to the checksum
+   * reported by Zenodo, throwing a `ZenodoChecksumError` if they do not match.
+   * @param bucketUrl Bucket URL of the deposition
    * @param filePath Path to the file to upload
+   * @param opts Upload options, for example to report progress
    */
-  public async uploadFile(bucketUrl: string, filePath: string): Promise<any> {
-    try {
-      // Prepare the file for upload
-      const fileName = path.basename(filePath);
-      const url = `${bucketUrl}/${encodeURIComponent(fileName)}`;
-
-      const fileStream = fs.createReadStream(filePath);
-
-      // Calculate the file size
-      const stats = fs.statSync(filePath);
-      const fileSizeInBytes = stats.size;
+  public async uploadFile(
+    bucketUrl: string,
+    filePath: string,
+    opts: UploadFileOptions = {},
+  ): Promise<BucketObject> {
+    const stats = fs.statSync(filePath);
+    return this.upload(
+      bucketUrl,
+      {
+        fileName: path.basename(filePath),
+        size: stats.size,
+        contentType: 'application/octet-stream',
+        // The file is streamed again from the start if the upload is retried
+        open: () => fs.createReadStream(filePath),
+        retryable: true,
+      },
+      opts,
+    );
+  }
 
-      // Set the appropriate headers and config
-      const response = await axios.put(url, fileStream, {
-        headers: {
-          'Content-Type': 'application/octet-stream', // or the actual MIME type of your file
-          'Content-Length': fileSizeInBytes,
-        },
-        params: {
-          access_token: this.accessToken,
+  /**
+   * Upload a file from a buffer or stream to an existing deposition.
+   *
+   * Buffers are uploaded like files on disk. Streams can only be read once,
+   * so failed requests and checksum mismatches are not retried.
+   * @param bucketUrl Bucket URL of the deposition
+   * @param content Content, name, size and type of the file
+   * @param opts Upload options, for example to report progress
+   */
+  public async uploadContent(
+    bucketUrl: string,
+    content: UploadContent,
+    opts: UploadFileOptions = {},
+  ): Promise<BucketObject> {
+    const { filename, data, contentType = 'application/octet-stream' } = content;
+    if (Buffer.isBuffer(data)) {
+      if (content.size != null && content.size !== data.length) {
+        throw new Error(
+          `The size of ${filename} is ${content.size} bytes, but the buffer has ${data.length} bytes`,
+        );
+      }
+      return this.upload(
+        bucketUrl,
+        {
+          fileName: filename,
+          size: data.length,
+          contentType,
+          open: () => Readable.from([data]),
+          retryable: true,
         },
-        maxContentLength: Infinity,
-        maxBodyLength: Infinity,
-      });
+        opts,
+      );
+    }
+    if (content.size == null) {
+      throw new Error(`The size of ${filename} is required to upload it from a stream`);
+    }
+    const stream = data instanceof Readable ? data : Readable.fromWeb(data);
+    return this.upload(
+      bucketUrl,
+      { fileName: filename, size: content.size, contentType, open: () => stream, retryable: false },
+      opts,
+    );
+  }
 
-      return response.data;
-    } catch (error: any) {
-      this.handleError(error);
+  private async upload(
+    bucketUrl: string,
+    source: UploadSource,
+    opts: UploadFileOptions,
+  ): Promise<BucketObject> {
+    const { fileName, size: fileSizeInBytes } = source;
+    const url = `${bucketUrl}/${encodeURIComponent(fileName)}`;
+
+    for (let attempt = 0; ; attempt++) {
+      // Hash of the attempt that was sent last, which is the one that succeeded
+      let sentHash: crypto.Hash | undefined;
+      const send = () => {
+        // Each attempt has its own hash, so data from an aborted attempt cannot reach it
+        const hash = crypto.createHash('md5');
+        sentHash = hash;
+        let loaded = 0;
+        opts.onProgress?.({ loaded, total: fileSizeInBytes });
+        const fileStream = pipeline(
+          source.open(),
+          new Transform({
+            transform(chunk, encoding, callback) {
+              hash.update(chunk);
+              loaded += chunk.length;
+              opts.onProgress?.({ loaded, total: fileSizeInBytes });
+              callback(null, chunk);
+            },
+          }),
+          () => {
+            // Errors are raised by the request
+          },
+        );
+        return axios.put(url, fileStream, {
+          headers: {
+            'Content-Type': source.contentType,
+            'Content-Length': fileSizeInBytes,
+          },
+          params: {
+            access_token: this.accessToken,
+          },
+          maxContentLength: Infinity,
+          maxBodyLength: Infinity,
+        });
+      };
+      const data: BucketObject = await this.request(send, { retry: source.retryable });
+      if (!this.verifyChecksum) return data;
+      const checksum = `md5:${sentHash?.digest('hex')}`;
+      if (data.checksum === checksum) return data;
+      if (!source.retryable || attempt >= this.checksumRetries) {
+        throw new ZenodoChecksumError(fileName, checksum, data.checksum);
+      }
     }
   }
 
@@ -686,28 +1256,166 @@ export class ZenodoClient {
    * List all files in an unpublished deposition.
    * @param depositionId ID of the deposition
    */
-  public async listFiles(depositionId: number): Promise<any> {
-    try {
-      const response = await this.axiosInstance.get(`/deposit/depositions/${depositionId}/files`);
-      return response.data;
-    } catch (error: any) {
-      this.handleError(error);
-    }
+  public async listFiles(depositionId: number): Promise<DepositionFile[]> {
+    return this.request(() => this.axiosInstance.get(`/deposit/depositions/${depositionId}/files`));
   }
 
   /**
    * Publish a deposition.
    * @param depositionId ID of the deposition
    */
-  public async publishDeposition(depositionId: number): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post(
-        `/deposit/depositions/${depositionId}/actions/publish`,
+  public async publishDeposition(depositionId: number): Promise<Deposition> {
+    return this.request(
+      () => this.axiosInstance.post(`/deposit/depositions/${depositionId}/actions/publish`),
+      { idempotent: false },
+    );
+  }
+
+  /**
+   * Unlock a published deposition for editing.
+   * @param depositionId ID of the deposition
+   */
+  public async editDeposition(depositionId: number): Promise<Deposition> {
+    return this.request(() =>
+      this.axiosInstance.post(`/deposit/depositions/${depositionId}/actions/edit`),
+    );
+  }
+
+  /**
+   * Discard changes in the current editing session of a deposition.
+   * @param depositionId ID of the deposition
+   */
+  public async discardDeposition(depositionId: number): Promise<Deposition> {
+    return this.request(() =>
+      this.axiosInstance.post(`/deposit/depositions/${depositionId}/actions/discard`),
+    );
+  }
+
+  /**
+   * Delete a file from an unpublished deposition.
+   * @param depositionId ID of the deposition
+   * @param fileId ID of the file
+   */
+  public async deleteFile(depositionId: number, fileId: string): Promise<void> {
+    await this.request(() =>
+      this.axiosInstance.delete(`/deposit/depositions/${depositionId}/files/${fileId}`),
+    );
+  }
+
+  /**
+   * Create a new version of a published deposition.
+   *
+   * Zenodo responds with the published deposition, the new draft is
+   * then loaded from its `latest_draft` link.
+   * @param depositionId ID of the published deposition
+   */
+  public async newVersion(depositionId: number): Promise<Deposition> {
+    const published: Deposition = await this.request(
+      () => this.axiosInstance.post(`/deposit/depositions/${depositionId}/actions/newversion`),
+      { idempotent: false },
+    );
+    const latestDraft = published.links.latest_draft;
+    if (!latestDraft) {
+      throw new Error(`No draft returned for new version of deposition ${depositionId}`);
+    }
+    return this.getDeposition(Number.parseInt(latestDraft.split('/').slice(-1)[0], 10));
+  }
+
+  /**
+   * Get a published record by ID, this includes records of other users.
+   * @param recordId ID of the record
+   */
+  public async getRecord(recordId: number): Promise<ZenodoRecord> {
+    return this.request(() => this.axiosInstance.get(`/records/${recordId}`));
+  }
+
+  /**
+   * Download a file of a deposition or record.
+   * @param url Download URL of the file
+   * @param filePath Path to write the file to
+   */
+  public async downloadFile(url: string, filePath: string): Promise<void> {
+    const data: Readable = await this.request(() =>
+      axios.get(url, {
+        responseType: 'stream',
+        params: {
+          access_token: this.accessToken,
+        },
+      }),
+    );
+    await pipelineAsync(data, fs.createWriteStream(filePath));
+  }
+
+  /**
+   * Send a request, retrying according to the retry policy and rate limit.
+   *
+   * At most `concurrency` requests are sent at the same time, retries wait outside the limit.
+   *
+   * The request is recreated for each attempt, so streamed bodies are sent in full.
+   * @param send Function that sends the request
+   * @param opts Set `retry: false` to send the request only once, apart from waiting for the rate limit,
+   * and `idempotent: false` to only retry requests that were rejected before they were processed
+   */
+  private async request<T>(
+    send: () => Promise<AxiosResponse<T>>,
+    opts: { retry?: boolean; idempotent?: boolean } = {},
+  ): Promise<T> {
+    const maxAttempts = opts.retry === false ? 1 : this.retry.maxAttempts;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.limit(async () => {
+          // Checked once a slot is free, as the rate limit may be reached while waiting
+          const rateLimitDelay = Math.min(this.rateLimitReset - Date.now(), this.retry.maxDelay);
+          if (rateLimitDelay > 0) await sleep(rateLimitDelay);
+          return send();
+        });
+        this.updateRateLimit(response.headers);
+        return response.data;
+      } catch (error: any) {
+        this.updateRateLimit(error.response?.headers);
+        if (attempt >= maxAttempts || !this.isRetryable(error, opts.idempotent ?? true)) {
+          this.handleError(error);
+        }
+        await sleep(this.retryDelay(error, attempt));
+      }
+    }
+  }
+
+  private isRetryable(error: any, idempotent: boolean): boolean {
+    if (error.response) {
+      const { status } = error.response;
+      return (
+        this.retry.statuses.includes(status) && (idempotent || UNSENT_STATUSES.includes(status))
       );
-      return response.data;
-    } catch (error: any) {
-      this.handleError(error);
     }
+    return idempotent
+      ? RETRY_ERROR_CODES.includes(error.code)
+      : UNSENT_ERROR_CODES.includes(error.code);
+  }
+
+  /**
+   * Delay before the next attempt, using `Retry-After` if provided,
+   * otherwise an exponential backoff with jitter.
+   */
+  private retryDelay(error: any, attempt: number): number {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter != null) return retryAfter;
+    const backoff = Math.min(
+      this.retry.maxDelay,
+      this.retry.initialDelay * Math.pow(2, attempt - 1),
+    );
+    return backoff / 2 + (Math.random() * backoff) / 2;
+  }
+
+  /**
+   * Pause further requests when the `X-RateLimit-*` headers show the limit is used up.
+   */
+  private updateRateLimit(headers: any) {
+    const remaining = headers?.['x-ratelimit-remaining'];
+    const reset = Number(headers?.['x-ratelimit-reset']);
+    if (remaining == null || Number(remaining) > 0 || Number.isNaN(reset)) return;
+    // The reset header is a unix timestamp in seconds
+    this.rateLimitReset = Math.max(this.rateLimitReset, reset * 1000);
   }
 
   /**
@@ -715,12 +1423,25 @@ export class ZenodoClient {
    * @param error Error object
    */
   private handleError(error: any): never {
+    if (error instanceof ZenodoApiError) throw error;
+    const method = error.config?.method?.toUpperCase();
+    const { baseURL, url: requestUrl } = error.config ?? {};
+    const url =
+      requestUrl && baseURL && !requestUrl.startsWith('http')
+        ? `${baseURL}${requestUrl}`
+        : requestUrl;
     if (error.response) {
-      console.error('API Error:', error.response.status, error.response.data);
-      throw new Error(`API Error: ${error.response.status} ${JSON.stringify(error.response.data)}`);
+      const { status, statusText, data } = error.response;
+      const message = typeof data?.message === 'string' ? data.message : statusText;
+      throw new ZenodoApiError(`API Error: ${status} ${message ?? ''}`.trim(), {
+        status,
+        errors: parseFieldErrors(data),
+        method,
+        url,
+        data,
+      });
     } else {
-      console.error('Error:', error.message);
-      throw new Error(`Error: ${error.message}`);
+      throw new ZenodoApiError(`Error: ${error.message}`, { method, url });
     }
   }
 }
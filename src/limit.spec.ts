@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createLimit } from './limit.js';
+
+function deferred() {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('createLimit', () => {
+  it('runs at most the given number of tasks at the same time', async () => {
+    const limit = createLimit(2);
+    const tasks = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const results = Promise.all(
+      tasks.map(({ promise }, index) =>
+        limit(async () => {
+          started.push(index);
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await promise;
+          running--;
+          return index;
+        }),
+      ),
+    );
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+    tasks[1].resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(started).toEqual([0, 1, 2]);
+    tasks.forEach(({ resolve }) => resolve());
+    expect(await results).toEqual([0, 1, 2, 3]);
+    expect(maxRunning).toBe(2);
+  });
+  it('frees the slot of failed tasks', async () => {
+    const limit = createLimit(1);
+    await expect(limit(() => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+    expect(await limit(async () => 'next')).toBe('next');
+  });
+  it('requires a concurrency of at least one', () => {
+    expect(() => createLimit(0)).toThrow('at least 1');
+  });
+});
@@ -0,0 +1,27 @@
+export type Limit = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limit that runs at most `concurrency` tasks at the same time
+ *
+ * Tasks that are over the limit wait for a running task to finish, and are started
+ * in the order they were added.
+ */
+export function createLimit(concurrency: number = Infinity): Limit {
+  if (!(concurrency >= 1)) {
+    throw new Error(`Concurrency must be at least 1, received ${concurrency}`);
+  }
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async (task) => {
+    if (active < concurrency) active++;
+    // A finished task passes its slot to the next waiting task
+    else await new Promise<void>((resolve) => queue.push(resolve));
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatCreatorName } from './names.js';
+
+describe('formatCreatorName', () => {
+  it('family and given names', () => {
+    expect(
+      formatCreatorName({
+        name: 'Jane Smith',
+        nameParsed: { literal: 'Jane Smith', given: 'Jane', family: 'Smith' },
+      }),
+    ).toBe('Smith, Jane');
+  });
+  it('non-dropping particles are kept with the family name', () => {
+    expect(
+      formatCreatorName({
+        nameParsed: {
+          given: 'Johannes Diderik',
+          non_dropping_particle: 'van der',
+          family: 'Waals',
+        },
+      }),
+    ).toBe('van der Waals, Johannes Diderik');
+  });
+  it('dropping particles are kept with the given name', () => {
+    expect(
+      formatCreatorName({
+        nameParsed: { given: 'Ludwig', dropping_particle: 'van', family: 'Beethoven' },
+      }),
+    ).toBe('Beethoven, Ludwig van');
+  });
+  it('suffixes are added at the end', () => {
+    expect(
+      formatCreatorName({
+        nameParsed: { given: 'Martin Luther', family: 'King', suffix: 'Jr.' },
+      }),
+    ).toBe('King, Martin Luther, Jr.');
+  });
+  it('single names are used as they are', () => {
+    expect(formatCreatorName({ nameParsed: { family: 'Plato' } })).toBe('Plato');
+    expect(formatCreatorName({ nameParsed: { given: 'Plato' } })).toBe('Plato');
+    expect(formatCreatorName({ nameParsed: { literal: 'Plato' } })).toBe('Plato');
+  });
+  it('collaborations use their name', () => {
+    expect(
+      formatCreatorName({
+        name: 'Acme Lab',
+        collaboration: true,
+        nameParsed: { literal: 'Acme Lab', given: 'Acme', family: 'Lab' },
+      }),
+    ).toBe('Acme Lab');
+  });
+  it('warns if there is no name', () => {
+    const onWarning = vi.fn();
+    expect(formatCreatorName({ id: 'anon' }, onWarning)).toBeUndefined();
+    expect(onWarning).toHaveBeenCalledOnce();
+  });
+});
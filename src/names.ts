@@ -0,0 +1,46 @@
+import type { Contributor } from 'myst-frontmatter';
+
+export type NamedContributor = Pick<
+  Contributor,
+  'id' | 'name' | 'nameParsed' | 'collaboration' | 'institution'
+>;
+
+function joinNames(...names: (string | undefined)[]): string {
+  return names
+    .map((name) => name?.trim())
+    .filter((name) => !!name)
+    .join(' ');
+}
+
+/**
+ * Format the name of a MyST author or contributor as "Family, Given", as expected by Zenodo
+ *
+ * Non-dropping particles are kept with the family name and dropping particles with
+ * the given name, and suffixes are added at the end (e.g. "van der Waals, Johannes Diderik"
+ * or "King, Martin Luther, Jr."). Collaborations and single names are used as they are.
+ *
+ * If no name can be found, `onWarning` is called and undefined is returned.
+ */
+export function formatCreatorName(
+  contributor: NamedContributor,
+  onWarning?: (message: string) => void,
+): string | undefined {
+  if (contributor.collaboration) {
+    const name = joinNames(contributor.name) || joinNames(contributor.institution);
+    if (name) return name;
+  } else {
+    const { literal, given, family, dropping_particle, non_dropping_particle, suffix } =
+      contributor.nameParsed ?? {};
+    const familyName = joinNames(non_dropping_particle, family);
+    const givenName = joinNames(given, dropping_particle);
+    if (familyName) {
+      const name = givenName ? `${familyName}, ${givenName}` : familyName;
+      return suffix?.trim() ? `${name}, ${suffix.trim()}` : name;
+    }
+    const name = givenName || joinNames(literal) || joinNames(contributor.name);
+    if (name) return name;
+  }
+  const label = contributor.id ? `"${contributor.id}"` : 'contributor';
+  onWarning?.(`Could not format a name for ${label}, a name is required by Zenodo`);
+  return undefined;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { formatReferences } from './references.js';
+
+const citations = [
+  {
+    doi: '10.1234/abc',
+    html: '<div class="csl-entry">Doe, J. (2020). <i>A title &amp; more</i>. Journal. <a href="https://doi.org/10.1234/abc">https://doi.org/10.1234/abc</a></div>',
+  },
+  { doi: '10.1234/def', html: 'Smith, J. (2021). Another title&#8230;' },
+  { html: '<div class="csl-entry">Roe, R. (1999). No DOI.</div>' },
+];
+
+describe('formatReferences', () => {
+  it('full formatted references include the DOI', () => {
+    expect(formatReferences(citations)).toEqual([
+      'Doe, J. (2020). A title & more. Journal. https://doi.org/10.1234/abc',
+      'Smith, J. (2021). Another title… https://doi.org/10.1234/def',
+      'Roe, R. (1999). No DOI.',
+    ]);
+  });
+  it('DOIs only keep citations without a DOI', () => {
+    expect(formatReferences(citations, 'doi')).toEqual([
+      'https://doi.org/10.1234/abc',
+      'https://doi.org/10.1234/def',
+      'Roe, R. (1999). No DOI.',
+    ]);
+  });
+  it('duplicate and empty references are removed', () => {
+    expect(
+      formatReferences([{ doi: '10.1234/abc' }, { doi: '10.1234/abc' }, { html: '' }]),
+    ).toEqual(['https://doi.org/10.1234/abc']);
+  });
+});
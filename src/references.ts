@@ -0,0 +1,44 @@
+import { htmlToText } from './html.js';
+
+/**
+ * Citation from the references of MyST content
+ */
+export type Citation = {
+  /** DOI of the cited work */
+  doi?: string;
+  /** Formatted citation as HTML, as rendered by MyST */
+  html?: string;
+};
+
+/**
+ * Format of deposit references, either DOIs where available or full formatted references
+ */
+export type ReferenceFormat = 'doi' | 'full';
+
+export const REFERENCE_FORMATS: ReferenceFormat[] = ['doi', 'full'];
+
+function doiUrl(doi: string): string {
+  return `https://doi.org/${doi.trim().replace(/^https?:\/\/(dx\.)?doi\.org\//, '')}`;
+}
+
+/**
+ * Format citations as reference strings for `DepositionMetadata.references`
+ *
+ * With the `doi` format, citations without a DOI are kept as full formatted references.
+ * Full references include the DOI, which is added if it is not in the formatted text.
+ */
+export function formatReferences(
+  citations: Citation[],
+  format: ReferenceFormat = 'full',
+): string[] {
+  const references = citations
+    .map(({ doi, html }) => {
+      const text = html ? htmlToText(html).replace(/\s+/g, ' ') : '';
+      if (!doi) return text;
+      if (format === 'doi' || !text) return doiUrl(doi);
+      if (text.toLowerCase().includes(doi.toLowerCase())) return text;
+      return `${text} ${doiUrl(doi)}`;
+    })
+    .filter((reference) => !!reference);
+  return [...new Set(references)];
+}
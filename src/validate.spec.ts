@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import type { DepositionMetadata } from './index.js';
+import { isIsoDate, isValidOrcid, validateDepositionMetadata } from './validate.js';
+
+const metadata: DepositionMetadata = {
+  title: 'My Poster',
+  description: '<p>Abstract</p>',
+  upload_type: 'poster',
+  creators: [{ name: 'Doe, John', orcid: '0000-0002-1694-233X' }],
+};
+
+function fields(result: { field: string }[]) {
+  return result.map(({ field }) => field);
+}
+
+describe('validateDepositionMetadata', () => {
+  it('valid metadata passes', () => {
+    expect(validateDepositionMetadata(metadata)).toEqual({
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+  });
+  it('title, description and creators are required', () => {
+    const result = validateDepositionMetadata({
+      ...metadata,
+      title: '',
+      description: ' ',
+      creators: [],
+    });
+    expect(result.valid).toBe(false);
+    expect(fields(result.errors)).toEqual(['title', 'description', 'creators']);
+  });
+  it('publication type is required for publications', () => {
+    const result = validateDepositionMetadata({ ...metadata, upload_type: 'publication' });
+    expect(fields(result.errors)).toEqual(['publication_type']);
+  });
+  it('image type is required for images', () => {
+    const result = validateDepositionMetadata({ ...metadata, upload_type: 'image' });
+    expect(fields(result.errors)).toEqual(['image_type']);
+  });
+  it('embargo date must be in the future', () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+    const embargoed = { ...metadata, access_right: 'embargoed' as const };
+    expect(
+      validateDepositionMetadata({ ...embargoed, embargo_date: '2024-06-02' }, { now }).valid,
+    ).toBe(true);
+    const result = validateDepositionMetadata(
+      { ...embargoed, embargo_date: '2024-06-01' },
+      { now },
+    );
+    expect(fields(result.errors)).toEqual(['embargo_date']);
+  });
+  it('embargo date is required for embargoed access', () => {
+    const result = validateDepositionMetadata({ ...metadata, access_right: 'embargoed' });
+    expect(fields(result.errors)).toEqual(['embargo_date']);
+  });
+  it('access conditions are required for restricted access', () => {
+    const result = validateDepositionMetadata({ ...metadata, access_right: 'restricted' });
+    expect(fields(result.errors)).toEqual(['access_conditions']);
+  });
+  it('conference dates and place require title or acronym', () => {
+    const result = validateDepositionMetadata({
+      ...metadata,
+      conference_dates: '14-18 October 2013',
+      conference_place: 'Amsterdam, The Netherlands',
+    });
+    expect(fields(result.errors)).toEqual(['conference_dates', 'conference_place']);
+    expect(
+      validateDepositionMetadata({
+        ...metadata,
+        conference_acronym: 'CHEP13',
+        conference_dates: '14-18 October 2013',
+      }).valid,
+    ).toBe(true);
+  });
+  it('dates must be ISO format', () => {
+    const result = validateDepositionMetadata({
+      ...metadata,
+      publication_date: '05/01/2024',
+      dates: [{ type: 'Collected', start: '2024-02-30' }, { type: 'Valid' }],
+    });
+    expect(fields(result.errors)).toEqual(['publication_date', 'dates.0.start', 'dates.1']);
+  });
+  it('orcids must have a valid checksum', () => {
+    const result = validateDepositionMetadata({
+      ...metadata,
+      creators: [{ name: 'Doe, John', orcid: '0000-0002-1694-2330' }],
+      contributors: [{ name: 'Smith, Jane', type: 'Editor', orcid: 'not-an-orcid' }],
+    });
+    expect(fields(result.errors)).toEqual(['creators.0.orcid', 'contributors.0.orcid']);
+  });
+  it('language must be ISO 639-2 or 639-3', () => {
+    expect(validateDepositionMetadata({ ...metadata, language: 'eng' }).valid).toBe(true);
+    const result = validateDepositionMetadata({ ...metadata, language: 'en' });
+    expect(result.errors[0].message).toContain('"eng"');
+    expect(fields(validateDepositionMetadata({ ...metadata, language: 'English' }).errors)).toEqual(
+      ['language'],
+    );
+  });
+  it('related identifiers must have a known relation and resource type', () => {
+    const result = validateDepositionMetadata({
+      ...metadata,
+      related_identifiers: [
+        { identifier: '10.1234/abc', relation: 'cites', resource_type: 'publication-article' },
+        { identifier: '10.1234/def', relation: 'isSupplementTo', resource_type: 'software' },
+        { identifier: '', relation: 'mentions' as any, resource_type: 'publication-poster' as any },
+      ],
+    });
+    expect(fields(result.errors)).toEqual([
+      'related_identifiers.2.identifier',
+      'related_identifiers.2.relation',
+      'related_identifiers.2.resource_type',
+    ]);
+  });
+  it('warns for fields that are ignored', () => {
+    const result = validateDepositionMetadata({
+      ...metadata,
+      publication_type: 'article',
+      embargo_date: '2030-01-01',
+    });
+    expect(result.valid).toBe(true);
+    expect(fields(result.warnings)).toEqual(['publication_type', 'embargo_date']);
+  });
+});
+
+describe('isValidOrcid', () => {
+  it.each([
+    ['0000-0002-1694-233X', true],
+    ['https://orcid.org/0000-0002-1825-0097', true],
+    ['0000-0002-1825-0098', false],
+    ['0000-0002-1825', false],
+  ])('%s is %s', (orcid, valid) => {
+    expect(isValidOrcid(orcid)).toBe(valid);
+  });
+});
+
+describe('isIsoDate', () => {
+  it.each([
+    ['2024-05-01', true],
+    ['2024-02-29', true],
+    ['2023-02-29', false],
+    ['2024-5-1', false],
+    ['2024-05-01T00:00:00Z', false],
+  ])('%s is %s', (date, valid) => {
+    expect(isIsoDate(date)).toBe(valid);
+  });
+});
@@ -0,0 +1,391 @@
+import type {
+  AccessRight,
+  ContributorType,
+  DepositionMetadata,
+  ImageType,
+  PublicationType,
+  RelationType,
+  UploadType,
+} from './index.js';
+
+export type ValidationMessage = {
+  /** Path to the field, for example `creators.0.orcid` */
+  field: string;
+  message: string;
+};
+
+export type ValidateOptions = {
+  /** Current date, used to check the embargo date is in the future */
+  now?: Date;
+};
+
+export type ValidationResult = {
+  /** True if there are no errors, there may still be warnings */
+  valid: boolean;
+  errors: ValidationMessage[];
+  warnings: ValidationMessage[];
+};
+
+export const UPLOAD_TYPES: UploadType[] = [
+  'publication',
+  'poster',
+  'presentation',
+  'dataset',
+  'image',
+  'video',
+  'software',
+  'lesson',
+  'physicalobject',
+  'other',
+];
+
+export const PUBLICATION_TYPES: PublicationType[] = [
+  'annotationcollection',
+  'book',
+  'section',
+  'conferencepaper',
+  'datamanagementplan',
+  'article',
+  'patent',
+  'preprint',
+  'deliverable',
+  'milestone',
+  'proposal',
+  'report',
+  'softwaredocumentation',
+  'taxonomictreatment',
+  'technicalnote',
+  'thesis',
+  'workingpaper',
+  'other',
+];
+
+export const IMAGE_TYPES: ImageType[] = ['figure', 'plot', 'drawing', 'diagram', 'photo', 'other'];
+
+export const ACCESS_RIGHTS: AccessRight[] = ['open', 'embargoed', 'restricted', 'closed'];
+
+export const CONTRIBUTOR_TYPES: ContributorType[] = [
+  'ContactPerson',
+  'DataCollector',
+  'DataCurator',
+  'DataManager',
+  'Distributor',
+  'Editor',
+  'HostingInstitution',
+  'Producer',
+  'ProjectLeader',
+  'ProjectManager',
+  'ProjectMember',
+  'RegistrationAgency',
+  'RegistrationAuthority',
+  'RelatedPerson',
+  'Researcher',
+  'ResearchGroup',
+  'RightsHolder',
+  'Supervisor',
+  'Sponsor',
+  'WorkPackageLeader',
+  'Other',
+];
+
+export const RELATION_TYPES: RelationType[] = [
+  'isCitedBy',
+  'cites',
+  'isSupplementTo',
+  'isSupplementedBy',
+  'isContinuedBy',
+  'continues',
+  'isDescribedBy',
+  'describes',
+  'hasMetadata',
+  'isMetadataFor',
+  'isVersionOf',
+  'hasVersion',
+  'isNewVersionOf',
+  'isPreviousVersionOf',
+  'isPartOf',
+  'hasPart',
+  'isReferencedBy',
+  'references',
+  'isDocumentedBy',
+  'documents',
+  'isCompiledBy',
+  'compiles',
+  'isVariantFormOf',
+  'isOriginalFormOf',
+  'isIdenticalTo',
+  'isAlternateIdentifier',
+  'isReviewedBy',
+  'reviews',
+  'isDerivedFrom',
+  'isSourceOf',
+  'requires',
+  'isRequiredBy',
+  'isObsoletedBy',
+  'obsoletes',
+];
+
+/**
+ * Check a related resource type, for example `software` or `publication-article`
+ */
+function isRelatedResourceType(value: string): boolean {
+  const [type, subtype] = value.split(/-(.*)/);
+  if (type === 'publication') return PUBLICATION_TYPES.includes(subtype as PublicationType);
+  if (type === 'image') return IMAGE_TYPES.includes(subtype as ImageType);
+  return subtype === undefined && UPLOAD_TYPES.includes(type as UploadType);
+}
+
+/**
+ * Two letter ISO 639-1 codes for common languages and their three letter ISO 639-2 codes
+ */
+export const ISO_639_1_TO_639_2: Record<string, string> = {
+  ar: 'ara',
+  bg: 'bul',
+  bn: 'ben',
+  ca: 'cat',
+  cs: 'ces',
+  cy: 'cym',
+  da: 'dan',
+  de: 'deu',
+  el: 'ell',
+  en: 'eng',
+  es: 'spa',
+  et: 'est',
+  eu: 'eus',
+  fa: 'fas',
+  fi: 'fin',
+  fr: 'fra',
+  ga: 'gle',
+  gl: 'glg',
+  he: 'heb',
+  hi: 'hin',
+  hr: 'hrv',
+  hu: 'hun',
+  id: 'ind',
+  is: 'isl',
+  it: 'ita',
+  ja: 'jpn',
+  ko: 'kor',
+  la: 'lat',
+  lt: 'lit',
+  lv: 'lav',
+  ms: 'msa',
+  mt: 'mlt',
+  nl: 'nld',
+  no: 'nor',
+  pl: 'pol',
+  pt: 'por',
+  ro: 'ron',
+  ru: 'rus',
+  sk: 'slk',
+  sl: 'slv',
+  sr: 'srp',
+  sv: 'swe',
+  sw: 'swa',
+  th: 'tha',
+  tr: 'tur',
+  uk: 'ukr',
+  ur: 'urd',
+  vi: 'vie',
+  zh: 'zho',
+};
+
+/**
+ * Check a date is in ISO8601 format (YYYY-MM-DD) and exists in the calendar
+ */
+export function isIsoDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+}
+
+/**
+ * Check an ORCID identifier, including its ISO 7064 11,2 checksum
+ *
+ * The identifier may be a bare ID or an `https://orcid.org/` URL.
+ */
+export function isValidOrcid(value: string): boolean {
+  const orcid = value.replace(/^https?:\/\/orcid\.org\//, '');
+  if (!orcid.match(/^\d{4}-\d{4}-\d{4}-\d{3}[\dX]$/)) return false;
+  const digits = orcid.replace(/-/g, '');
+  let total = 0;
+  for (let i = 0; i < 15; i++) {
+    total = (total + Number(digits[i])) * 2;
+  }
+  const result = (12 - (total % 11)) % 11;
+  const checkDigit = result === 10 ? 'X' : String(result);
+  return digits[15] === checkDigit;
+}
+
+function validatePeople(
+  people: { name?: string; orcid?: string }[] | undefined,
+  field: string,
+  errors: ValidationMessage[],
+) {
+  people?.forEach((person, index) => {
+    if (!person.name?.trim()) {
+      errors.push({ field: `${field}.${index}.name`, message: 'Name is required' });
+    }
+    if (person.orcid && !isValidOrcid(person.orcid)) {
+      errors.push({
+        field: `${field}.${index}.orcid`,
+        message: `Invalid ORCID identifier: ${person.orcid}`,
+      });
+    }
+  });
+}
+
+/**
+ * Validate deposition metadata against the rules enforced by Zenodo
+ *
+ * This catches invalid metadata before any request is made; Zenodo may still
+ * reject values that cannot be checked locally, such as license or community IDs.
+ */
+export function validateDepositionMetadata(
+  metadata: DepositionMetadata,
+  opts: ValidateOptions = {},
+): ValidationResult {
+  const errors: ValidationMessage[] = [];
+  const warnings: ValidationMessage[] = [];
+  const error = (field: string, message: string) => errors.push({ field, message });
+  const warn = (field: string, message: string) => warnings.push({ field, message });
+
+  if (!metadata.title?.trim()) error('title', 'Title is required');
+  if (!metadata.description?.trim()) error('description', 'Description is required');
+
+  if (!UPLOAD_TYPES.includes(metadata.upload_type)) {
+    error('upload_type', `Unknown upload type: ${metadata.upload_type}`);
+  }
+  if (metadata.upload_type === 'publication') {
+    if (!metadata.publication_type) {
+      error('publication_type', 'Publication type is required for publications');
+    } else if (!PUBLICATION_TYPES.includes(metadata.publication_type)) {
+      error('publication_type', `Unknown publication type: ${metadata.publication_type}`);
+    }
+  } else if (metadata.publication_type) {
+    warn('publication_type', 'Publication type is ignored unless upload type is "publication"');
+  }
+  if (metadata.upload_type === 'image') {
+    if (!metadata.image_type) {
+      error('image_type', 'Image type is required for images');
+    } else if (!IMAGE_TYPES.includes(metadata.image_type)) {
+      error('image_type', `Unknown image type: ${metadata.image_type}`);
+    }
+  } else if (metadata.image_type) {
+    warn('image_type', 'Image type is ignored unless upload type is "image"');
+  }
+
+  if (!metadata.creators?.length) error('creators', 'At least one creator is required');
+  validatePeople(metadata.creators, 'creators', errors);
+  validatePeople(metadata.thesis_supervisors, 'thesis_supervisors', errors);
+  validatePeople(metadata.contributors, 'contributors', errors);
+  metadata.contributors?.forEach(({ type }, index) => {
+    if (!CONTRIBUTOR_TYPES.includes(type)) {
+      error(`contributors.${index}.type`, `Unknown contributor type: ${type}`);
+    }
+  });
+
+  if (metadata.publication_date && !isIsoDate(metadata.publication_date)) {
+    error(
+      'publication_date',
+      `Date must be in ISO8601 format (YYYY-MM-DD): ${metadata.publication_date}`,
+    );
+  }
+
+  const accessRight = metadata.access_right ?? 'open';
+  if (!ACCESS_RIGHTS.includes(accessRight)) {
+    error('access_right', `Unknown access right: ${accessRight}`);
+  }
+  const embargoDate = metadata.embargo_date;
+  const today = (opts.now ?? new Date()).toISOString().slice(0, 10);
+  if (embargoDate && !isIsoDate(embargoDate)) {
+    error('embargo_date', `Date must be in ISO8601 format (YYYY-MM-DD): ${embargoDate}`);
+  }
+  if (accessRight === 'embargoed') {
+    if (!embargoDate) {
+      error('embargo_date', 'Embargo date is required for embargoed access');
+    } else if (isIsoDate(embargoDate) && embargoDate <= today) {
+      error('embargo_date', `Embargo date must be in the future: ${embargoDate}`);
+    }
+  } else if (embargoDate) {
+    warn('embargo_date', 'Embargo date is ignored unless access right is "embargoed"');
+  }
+  if (accessRight === 'restricted' && !metadata.access_conditions?.trim()) {
+    error('access_conditions', 'Access conditions are required for restricted access');
+  } else if (accessRight !== 'restricted' && metadata.access_conditions) {
+    warn('access_conditions', 'Access conditions are ignored unless access right is "restricted"');
+  }
+
+  if (metadata.doi && !metadata.doi.match(/^10\.\d{4,9}\/\S+$/)) {
+    error('doi', `Invalid DOI: ${metadata.doi}`);
+  }
+
+  const hasConference = !!(metadata.conference_title || metadata.conference_acronym);
+  if (metadata.conference_dates && !hasConference) {
+    error('conference_dates', 'Conference title or acronym is required with conference dates');
+  }
+  if (metadata.conference_place && !hasConference) {
+    error('conference_place', 'Conference title or acronym is required with conference place');
+  }
+
+  if (metadata.language) {
+    const suggestion = ISO_639_1_TO_639_2[metadata.language.toLowerCase()];
+    if (suggestion) {
+      error(
+        'language',
+        `Language must be an ISO 639-2 or 639-3 code, use "${suggestion}" instead of "${metadata.language}"`,
+      );
+    } else if (!metadata.language.match(/^[a-z]{3}$/)) {
+      error('language', `Language must be an ISO 639-2 or 639-3 code: ${metadata.language}`);
+    }
+  }
+
+  metadata.keywords?.forEach((keyword, index) => {
+    if (!keyword?.trim()) warn(`keywords.${index}`, 'Empty keyword');
+  });
+  metadata.communities?.forEach(({ identifier }, index) => {
+    if (!identifier?.trim())
+      error(`communities.${index}.identifier`, 'Community identifier is required');
+  });
+  metadata.grants?.forEach(({ id }, index) => {
+    if (!id?.trim()) error(`grants.${index}.id`, 'Grant ID is required');
+  });
+  metadata.related_identifiers?.forEach(({ identifier, relation, resource_type }, index) => {
+    if (!identifier?.trim()) {
+      error(`related_identifiers.${index}.identifier`, 'Identifier is required');
+    }
+    if (!RELATION_TYPES.includes(relation)) {
+      error(`related_identifiers.${index}.relation`, `Unknown relation: ${relation}`);
+    }
+    if (resource_type && !isRelatedResourceType(resource_type)) {
+      error(
+        `related_identifiers.${index}.resource_type`,
+        `Unknown resource type: ${resource_type}`,
+      );
+    }
+  });
+  metadata.locations?.forEach(({ place, lat, lon }, index) => {
+    if (!place?.trim()) error(`locations.${index}.place`, 'Place is required');
+    if (lat != null && (lat < -90 || lat > 90)) {
+      error(`locations.${index}.lat`, `Latitude must be between -90 and 90: ${lat}`);
+    }
+    if (lon != null && (lon < -180 || lon > 180)) {
+      error(`locations.${index}.lon`, `Longitude must be between -180 and 180: ${lon}`);
+    }
+  });
+  metadata.dates?.forEach(({ start, end }, index) => {
+    if (!start && !end) error(`dates.${index}`, 'Start or end date is required');
+    if (start && !isIsoDate(start)) {
+      error(`dates.${index}.start`, `Date must be in ISO8601 format (YYYY-MM-DD): ${start}`);
+    }
+    if (end && !isIsoDate(end)) {
+      error(`dates.${index}.end`, `Date must be in ISO8601 format (YYYY-MM-DD): ${end}`);
+    }
+  });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
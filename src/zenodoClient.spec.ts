@@ -1,7 +1,13 @@
 import type { Mock } from 'vitest';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { ZenodoClient } from './index.js';
+import { afterEach, describe, it, expect, vi, beforeEach } from 'vitest';
+import { ZenodoApiError, ZenodoChecksumError, ZenodoClient } from './index.js';
 import axios from 'axios';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
 
 // Mock axios module
 vi.mock('axios');
@@ -20,4 +26,348 @@ describe('ZenodoClient Tests', () => {
   it('should instantiate ZenodoClient correctly', () => {
     expect(zenodoClient).toBeInstanceOf(ZenodoClient);
   });
+
+  it('should throw ZenodoApiError with field errors', async () => {
+    const put = vi.fn().mockRejectedValue({
+      config: {
+        method: 'put',
+        baseURL: 'https://sandbox.zenodo.org/api',
+        url: '/deposit/depositions/1',
+      },
+      response: {
+        status: 400,
+        statusText: 'Bad Request',
+        data: {
+          status: 400,
+          message: 'Validation error.',
+          errors: [
+            { field: 'metadata.creators.0.orcid', message: 'Not a valid ORCID identifier.' },
+            { field: 'metadata.title', messages: ['Missing data for required field.'] },
+          ],
+        },
+      },
+    });
+    (axios.create as Mock).mockReturnValue({ put });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+    const error = await zenodoClient
+      .updateDeposition(1, { title: '', description: '', upload_type: 'poster', creators: [] })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ZenodoApiError);
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('API Error: 400 Validation error.');
+    expect(error.method).toBe('PUT');
+    expect(error.url).toBe('https://sandbox.zenodo.org/api/deposit/depositions/1');
+    expect(error.errors).toEqual([
+      { field: 'metadata.creators.0.orcid', messages: ['Not a valid ORCID identifier.'] },
+      { field: 'metadata.title', messages: ['Missing data for required field.'] },
+    ]);
+  });
+
+  it('should retry requests on retryable status codes', async () => {
+    const get = vi
+      .fn()
+      .mockRejectedValueOnce({ response: { status: 503, headers: {} } })
+      .mockRejectedValueOnce({ code: 'ECONNRESET' })
+      .mockResolvedValue({ data: { id: 1 }, headers: {} });
+    (axios.create as Mock).mockReturnValue({ get });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { retry: { initialDelay: 0 } });
+    const deposition = await zenodoClient.getDeposition(1);
+    expect(deposition).toEqual({ id: 1 });
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const get = vi.fn().mockRejectedValue({ response: { status: 404, data: {}, headers: {} } });
+    (axios.create as Mock).mockReturnValue({ get });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { retry: { initialDelay: 0 } });
+    await expect(zenodoClient.getDeposition(1)).rejects.toThrow(ZenodoApiError);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying after max attempts', async () => {
+    const get = vi.fn().mockRejectedValue({
+      response: { status: 429, data: {}, headers: { 'retry-after': '0' } },
+    });
+    (axios.create as Mock).mockReturnValue({ get });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { retry: { maxAttempts: 3 } });
+    const error = await zenodoClient.getDeposition(1).catch((e) => e);
+    expect(error).toBeInstanceOf(ZenodoApiError);
+    expect(error.status).toBe(429);
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only retry requests that were not processed when creating or publishing', async () => {
+    const post = vi
+      .fn()
+      .mockRejectedValueOnce({ response: { status: 429, headers: { 'retry-after': '0' } } })
+      .mockRejectedValueOnce({ code: 'ECONNREFUSED' })
+      .mockRejectedValueOnce({ response: { status: 504, data: {}, headers: {} } });
+    (axios.create as Mock).mockReturnValue({ post });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { retry: { initialDelay: 0 } });
+    const error = await zenodoClient.publishDeposition(1).catch((e) => e);
+    expect(error).toBeInstanceOf(ZenodoApiError);
+    expect(error.status).toBe(504);
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry timeouts when creating a deposition', async () => {
+    const post = vi.fn().mockRejectedValue({ code: 'ETIMEDOUT', message: 'timeout' });
+    (axios.create as Mock).mockReturnValue({ post });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { retry: { initialDelay: 0 } });
+    await expect(zenodoClient.createEmptyDeposition()).rejects.toBeDefined();
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  describe('rate limits', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    });
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function expectCallsAfter(get: Mock, request: Promise<unknown>, delay: number) {
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(get).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(get).toHaveBeenCalledTimes(2);
+      await request;
+    }
+
+    it('should wait for Retry-After in seconds', async () => {
+      const get = vi
+        .fn()
+        .mockRejectedValueOnce({ response: { status: 503, headers: { 'retry-after': '2' } } })
+        .mockResolvedValue({ data: { id: 1 }, headers: {} });
+      (axios.create as Mock).mockReturnValue({ get });
+      zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+      await expectCallsAfter(get, zenodoClient.getDeposition(1), 2000);
+    });
+
+    it('should wait for Retry-After as an HTTP date', async () => {
+      const retryAfter = new Date(Date.now() + 3000).toUTCString();
+      const get = vi
+        .fn()
+        .mockRejectedValueOnce({
+          response: { status: 429, headers: { 'retry-after': retryAfter } },
+        })
+        .mockResolvedValue({ data: { id: 1 }, headers: {} });
+      (axios.create as Mock).mockReturnValue({ get });
+      zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+      await expectCallsAfter(get, zenodoClient.getDeposition(1), 3000);
+    });
+
+    it('should pause requests until the rate limit is reset', async () => {
+      const reset = String(Date.now() / 1000 + 5);
+      const get = vi.fn().mockResolvedValueOnce({
+        data: { id: 1 },
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset },
+      });
+      get.mockResolvedValue({ data: { id: 2 }, headers: {} });
+      (axios.create as Mock).mockReturnValue({ get });
+      zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+      await zenodoClient.getDeposition(1);
+      await expectCallsAfter(get, zenodoClient.getDeposition(2), 5000);
+    });
+  });
+
+  it('should limit concurrent requests', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const get = vi.fn().mockImplementation(async (url: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return { data: { url }, headers: {} };
+    });
+    (axios.create as Mock).mockReturnValue({ get });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { concurrency: 2 });
+    await Promise.all([1, 2, 3, 4, 5].map((id) => zenodoClient.getDeposition(id)));
+    expect(get).toHaveBeenCalledTimes(5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should list depositions with search and pagination params', async () => {
+    const get = vi.fn().mockResolvedValue({ data: [{ id: 1 }], headers: {} });
+    (axios.create as Mock).mockReturnValue({ get });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+    const params = {
+      q: 'title:poster',
+      status: 'draft',
+      sort: 'mostrecent',
+      page: 2,
+      size: 10,
+    } as const;
+    const depositions = await zenodoClient.listDepositions(params);
+    expect(get).toHaveBeenCalledWith('/deposit/depositions', { params });
+    expect(depositions).toEqual([{ id: 1 }]);
+  });
+
+  it('should delete a deposition', async () => {
+    const del = vi.fn().mockResolvedValue({ data: '', status: 204, headers: {} });
+    (axios.create as Mock).mockReturnValue({ delete: del });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+    await expect(zenodoClient.deleteDeposition(1)).resolves.toBeUndefined();
+    expect(del).toHaveBeenCalledWith('/deposit/depositions/1');
+  });
+
+  it.each([
+    ['publishDeposition', 'publish'],
+    ['editDeposition', 'edit'],
+    ['discardDeposition', 'discard'],
+  ] as const)('should %s with the %s action', async (method, action) => {
+    const post = vi.fn().mockResolvedValue({ data: { id: 1, state: 'done' }, headers: {} });
+    (axios.create as Mock).mockReturnValue({ post });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+    const deposition = await zenodoClient[method](1);
+    expect(post).toHaveBeenCalledWith(`/deposit/depositions/1/actions/${action}`);
+    expect(deposition).toEqual({ id: 1, state: 'done' });
+  });
+
+  it('should return the draft of a new version', async () => {
+    const post = vi.fn().mockResolvedValue({
+      data: {
+        id: 1,
+        links: { latest_draft: 'https://sandbox.zenodo.org/api/deposit/depositions/2' },
+      },
+      headers: {},
+    });
+    const get = vi.fn().mockResolvedValue({ data: { id: 2 }, headers: {} });
+    (axios.create as Mock).mockReturnValue({ get, post });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+    const draft = await zenodoClient.newVersion(1);
+    expect(post).toHaveBeenCalledWith('/deposit/depositions/1/actions/newversion');
+    expect(get).toHaveBeenCalledWith('/deposit/depositions/2');
+    expect(draft).toEqual({ id: 2 });
+  });
+
+  it('should throw if no draft is returned for a new version', async () => {
+    const post = vi.fn().mockResolvedValue({ data: { id: 1, links: {} }, headers: {} });
+    (axios.create as Mock).mockReturnValue({ post });
+    zenodoClient = new ZenodoClient(ACCESS_TOKEN, true);
+    await expect(zenodoClient.newVersion(1)).rejects.toThrow(
+      'No draft returned for new version of deposition 1',
+    );
+  });
+
+  describe('uploadFile', () => {
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'zenodo-')), 'poster.pdf');
+      fs.writeFileSync(filePath, 'hello zenodo');
+    });
+
+    function mockUpload(checksums: string[]) {
+      const put = axios.put as Mock;
+      put.mockReset();
+      checksums.forEach((checksum) => {
+        put.mockImplementationOnce(async (url: string, stream: Readable) => {
+          // Consume the stream as the request would
+          for await (const chunk of stream) void chunk;
+          return { data: { key: 'poster.pdf', checksum }, headers: {} };
+        });
+      });
+      return put;
+    }
+
+    it('should verify the checksum of uploaded files', async () => {
+      const checksum = `md5:${crypto.createHash('md5').update('hello zenodo').digest('hex')}`;
+      const put = mockUpload([checksum]);
+      const data = await zenodoClient.uploadFile('https://bucket', filePath);
+      expect(data.checksum).toBe(checksum);
+      expect(put).toHaveBeenCalledWith(
+        'https://bucket/poster.pdf',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should report upload progress', async () => {
+      const checksum = `md5:${crypto.createHash('md5').update('hello zenodo').digest('hex')}`;
+      mockUpload([checksum]);
+      const onProgress = vi.fn();
+      await zenodoClient.uploadFile('https://bucket', filePath, { onProgress });
+      expect(onProgress).toHaveBeenCalledWith({ loaded: 0, total: 12 });
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 12, total: 12 });
+    });
+
+    it('should throw ZenodoChecksumError on mismatch', async () => {
+      const put = mockUpload(['md5:bad', 'md5:bad']);
+      await expect(zenodoClient.uploadFile('https://bucket', filePath)).rejects.toThrow(
+        ZenodoChecksumError,
+      );
+      expect(put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should upload again on mismatch if configured', async () => {
+      const put = mockUpload(['md5:bad', 'md5:bad']);
+      zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { checksumRetries: 1 });
+      await expect(zenodoClient.uploadFile('https://bucket', filePath)).rejects.toThrow(
+        ZenodoChecksumError,
+      );
+      expect(put).toHaveBeenCalledTimes(2);
+    });
+
+    it('should upload buffers with a content type', async () => {
+      const checksum = `md5:${crypto.createHash('md5').update('hello zenodo').digest('hex')}`;
+      const put = mockUpload(['md5:bad', checksum]);
+      zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { checksumRetries: 1 });
+      const data = await zenodoClient.uploadContent('https://bucket', {
+        filename: 'poster.pdf',
+        data: Buffer.from('hello zenodo'),
+        contentType: 'application/pdf',
+      });
+      expect(data.checksum).toBe(checksum);
+      expect(put).toHaveBeenCalledTimes(2);
+      expect(put).toHaveBeenLastCalledWith('https://bucket/poster.pdf', expect.anything(), {
+        headers: { 'Content-Type': 'application/pdf', 'Content-Length': 12 },
+        params: { access_token: ACCESS_TOKEN },
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+      });
+    });
+
+    it('should upload streams once', async () => {
+      const checksum = `md5:${crypto.createHash('md5').update('hello zenodo').digest('hex')}`;
+      mockUpload([checksum]);
+      const onProgress = vi.fn();
+      await zenodoClient.uploadContent(
+        'https://bucket',
+        { filename: 'poster.pdf', data: Readable.from(['hello ', 'zenodo']), size: 12 },
+        { onProgress },
+      );
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 12, total: 12 });
+
+      const put = mockUpload(['md5:bad', checksum]);
+      zenodoClient = new ZenodoClient(ACCESS_TOKEN, true, { checksumRetries: 1 });
+      const data = new Blob(['hello zenodo']).stream() as WebReadableStream<Uint8Array>;
+      await expect(
+        zenodoClient.uploadContent('https://bucket', { filename: 'poster.pdf', data, size: 12 }),
+      ).rejects.toThrow(ZenodoChecksumError);
+      expect(put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject buffers of a different size', async () => {
+      const put = mockUpload([]);
+      await expect(
+        zenodoClient.uploadContent('https://bucket', {
+          filename: 'poster.pdf',
+          data: Buffer.from('hello zenodo'),
+          size: 20,
+        }),
+      ).rejects.toThrow('the buffer has 12 bytes');
+      expect(put).not.toHaveBeenCalled();
+    });
+
+    it('should require the size of streams', async () => {
+      await expect(
+        zenodoClient.uploadContent('https://bucket', {
+          filename: 'poster.pdf',
+          data: Readable.from(['hello zenodo']),
+        }),
+      ).rejects.toThrow('size');
+    });
+  });
 });